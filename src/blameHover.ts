@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import {
+    BlameLineData,
+    CommitContribution,
+    MetricsCalculator,
+    UNCOMMITTED_HASH,
+    identityKey
+} from './core';
+
+// Line blame on hover, from the same blame data as the status bar and heatmap
+export class BlameHoverProvider implements vscode.HoverProvider {
+    constructor(
+        private metricsCalculator: MetricsCalculator,
+        // Undefined when the document can't be blamed or hovers are turned off
+        private loadBlameData: (document: vscode.TextDocument) => Promise<BlameLineData[] | undefined>
+    ) {}
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        const blameData = await this.loadBlameData(document);
+        if (!blameData || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const lineData = blameData.find(line => line.lineNumber === position.line + 1);
+        if (!lineData) {
+            return undefined;
+        }
+
+        const identity = identityKey(lineData.author, lineData.email);
+        const contributor = this.metricsCalculator
+            .calculateContributions(blameData, document.languageId)
+            .find(c => identityKey(c.author, c.email) === identity);
+        const uncommitted = lineData.commit === UNCOMMITTED_HASH;
+
+        const markdown = new vscode.MarkdownString();
+        // Only the links below may run, nothing a commit summary smuggles in
+        markdown.isTrusted = { enabledCommands: ['gitFlex.openCommitDiff', 'gitFlex.showContributors'] };
+        markdown.supportThemeIcons = true;
+
+        if (uncommitted) {
+            markdown.appendMarkdown('$(edit) **Not committed yet**: this line has local changes\n\n');
+        } else {
+            const author = lineData.email ? `${lineData.author} <${lineData.email}>` : lineData.author;
+            markdown.appendMarkdown(`$(account) **${this.escape(author)}** · \`${lineData.commit.substring(0, 7)}\` · ${this.metricsCalculator.formatDate(lineData.timestamp)}\n\n`);
+            if (lineData.summary) {
+                markdown.appendText(lineData.summary);
+                markdown.appendMarkdown('\n\n');
+            }
+        }
+
+        if (contributor) {
+            const owner = uncommitted ? 'Uncommitted lines make up' : `${this.escape(lineData.author)} owns`;
+            const count = this.metricsCalculator.formatCountValue(this.metricsCalculator.getCountValue(contributor));
+            markdown.appendMarkdown(`${owner} **${contributor.percentage}%** of this file (${count} ${this.metricsCalculator.getUnit()})\n\n`);
+        }
+
+        const contribution: CommitContribution = {
+            commit: lineData.commit,
+            summary: lineData.summary,
+            timestamp: lineData.timestamp,
+            lines: 1,
+            filename: lineData.filename,
+            previous: lineData.previous
+        };
+        const diffLink = this.commandLink('gitFlex.openCommitDiff', [document.uri.toString(), contribution]);
+        const contributorsLink = this.commandLink('gitFlex.showContributors', [identity]);
+        markdown.appendMarkdown(uncommitted
+            ? `[$(diff) Open working tree diff](${diffLink}) · [$(list-flat) Show uncommitted lines](${contributorsLink})`
+            : `[$(diff) Open commit diff](${diffLink}) · [$(list-flat) Show commits by ${this.escape(lineData.author)}](${contributorsLink})`);
+
+        return new vscode.Hover(markdown, document.lineAt(position.line).range);
+    }
+
+    private commandLink(command: string, args: unknown[]): string {
+        return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+    }
+
+    private escape(value: string): string {
+        return value.replace(/([\\`*_{}[\]()#+\-.!<>|])/g, '\\$1');
+    }
+}
@@ -0,0 +1,293 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    AuthorAlias,
+    BlameParser,
+    ContributorAnalyzer,
+    CountMode,
+    DEFAULT_METRICS_OPTIONS,
+    FolderAnalyzer,
+    GitRunner,
+    IdentityResolver,
+    MetricsCalculator,
+    MetricsOptions,
+    MoveDetection,
+    REPORT_FORMATS,
+    ReportFormat,
+    ReportFormatter,
+    ReportTarget
+} from './core';
+
+const COUNT_MODES: CountMode[] = ['lines', 'characters', 'recency', 'code'];
+const MOVE_DETECTION: MoveDetection[] = ['off', 'withinFile', 'crossFile', 'crossFileAnyCommit'];
+
+const USAGE = `Usage: git-flex [options] <path...>
+
+Report who owns the lines of files or directories (tracked files only).
+
+Options:
+  -f, --format <format>      table, json, csv or markdown (default: table)
+  -m, --count-mode <mode>    lines, characters, recency or code (default: lines)
+      --half-life <days>     Half-life for the recency count mode (default: 180)
+      --ignore-blank-lines   Do not count blank lines
+      --ignore-rev <rev>     Skip a commit when attributing lines (repeatable)
+      --detect-moves <level> off, withinFile, crossFile or crossFileAnyCommit (default: off)
+      --co-authors <credit>  Credit Co-authored-by trailers: off, equal, or the share (0-1)
+                             the co-authors get together (default: off)
+      --exclude-author <re>  Leave out lines by authors whose name or email matches (repeatable)
+      --exclude-file <glob>  Skip matching files in directories, e.g. 'vendor/**' (repeatable)
+      --exclude-line <re>    Leave out lines whose content matches (repeatable)
+      --aliases <file>       JSON file with [{ "name": ..., "emails": [...] }] alias groups
+      --max-file-size <kb>   Skip files larger than this in directories (default: 2048)
+  -n, --top <count>          Only list the top N contributors per path
+  -h, --help                 Show this help`;
+
+interface CliOptions {
+    paths: string[];
+    format: ReportFormat;
+    metrics: MetricsOptions;
+    ignoreRevisions: string[];
+    detectMoves: MoveDetection;
+    excludeFiles: string[];
+    aliasesFile?: string;
+    maxFileSizeKB: number;
+    top?: number;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions | null {
+    const options: CliOptions = {
+        paths: [],
+        format: 'table',
+        metrics: { ...DEFAULT_METRICS_OPTIONS, excludeAuthors: [], excludeLines: [] },
+        ignoreRevisions: [],
+        detectMoves: 'off',
+        excludeFiles: [],
+        maxFileSizeKB: 2048
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = (): string => {
+            const value = argv[++i];
+            if (value === undefined) {
+                throw new UsageError(`Missing value for ${arg}`);
+            }
+            return value;
+        };
+        const nextPattern = (): string => {
+            const value = next();
+            try {
+                new RegExp(value);
+            } catch {
+                throw new UsageError(`${arg} expects a regular expression: ${value}`);
+            }
+            return value;
+        };
+        const nextNumber = (): number => {
+            const value = Number(next());
+            if (!Number.isFinite(value) || value <= 0) {
+                throw new UsageError(`${arg} expects a positive number`);
+            }
+            return value;
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return null;
+            case '-f':
+            case '--format': {
+                const format = next() as ReportFormat;
+                if (!REPORT_FORMATS.includes(format)) {
+                    throw new UsageError(`Unknown format: ${format}`);
+                }
+                options.format = format;
+                break;
+            }
+            case '-m':
+            case '--count-mode': {
+                const countMode = next() as CountMode;
+                if (!COUNT_MODES.includes(countMode)) {
+                    throw new UsageError(`Unknown count mode: ${countMode}`);
+                }
+                options.metrics.countMode = countMode;
+                break;
+            }
+            case '--half-life':
+                options.metrics.recencyHalfLifeDays = nextNumber();
+                break;
+            case '--ignore-blank-lines':
+                options.metrics.ignoreBlankLines = true;
+                break;
+            case '--ignore-rev':
+                options.ignoreRevisions.push(next());
+                break;
+            case '--detect-moves': {
+                const detectMoves = next() as MoveDetection;
+                if (!MOVE_DETECTION.includes(detectMoves)) {
+                    throw new UsageError(`Unknown move detection level: ${detectMoves}`);
+                }
+                options.detectMoves = detectMoves;
+                break;
+            }
+            case '--co-authors': {
+                const credit = next();
+                if (credit === 'off' || credit === 'equal') {
+                    options.metrics.coAuthorCredit = credit;
+                    break;
+                }
+                const share = Number(credit);
+                if (isNaN(share) || share < 0 || share > 1) {
+                    throw new UsageError(`Invalid co-author credit: ${credit}`);
+                }
+                options.metrics.coAuthorCredit = 'custom';
+                options.metrics.coAuthorShare = share;
+                break;
+            }
+            case '--exclude-author':
+                options.metrics.excludeAuthors.push(nextPattern());
+                break;
+            case '--exclude-file':
+                options.excludeFiles.push(next());
+                break;
+            case '--exclude-line':
+                options.metrics.excludeLines.push(nextPattern());
+                break;
+            case '--aliases':
+                options.aliasesFile = next();
+                break;
+            case '--max-file-size':
+                options.maxFileSizeKB = nextNumber();
+                break;
+            case '-n':
+            case '--top':
+                options.top = Math.floor(nextNumber());
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${arg}`);
+                }
+                options.paths.push(arg);
+        }
+    }
+
+    if (options.paths.length === 0) {
+        throw new UsageError('No paths given');
+    }
+    return options;
+}
+
+function loadAliases(aliasesFile: string | undefined): AuthorAlias[] {
+    if (!aliasesFile) {
+        return [];
+    }
+    const parsed = JSON.parse(fs.readFileSync(aliasesFile, 'utf8'));
+    if (!Array.isArray(parsed)) {
+        throw new UsageError(`${aliasesFile} must contain a JSON array`);
+    }
+    return parsed;
+}
+
+async function run(options: CliOptions): Promise<number> {
+    const gitRunner = new GitRunner();
+    const blameParser = new BlameParser(new IdentityResolver(loadAliases(options.aliasesFile)));
+    const metricsCalculator = new MetricsCalculator(options.metrics);
+    const analyzer = new ContributorAnalyzer(gitRunner, blameParser, metricsCalculator, {
+        ignoreRevisions: options.ignoreRevisions,
+        detectMoves: options.detectMoves
+    });
+    const folderAnalyzer = new FolderAnalyzer(gitRunner, blameParser, metricsCalculator);
+    const formatter = new ReportFormatter(metricsCalculator);
+
+    const targets: ReportTarget[] = [];
+    let exitCode = 0;
+
+    for (const targetPath of options.paths) {
+        const absolutePath = path.resolve(targetPath);
+        try {
+            const stats = fs.statSync(absolutePath);
+
+            if (stats.isDirectory()) {
+                if (!await gitRunner.isInGitRepository(absolutePath)) {
+                    throw new Error('not in a Git repository');
+                }
+                const ownership = await folderAnalyzer.analyze(absolutePath, {
+                    maxFileSizeKB: options.maxFileSizeKB,
+                    getBlameOptions: repoRoot => analyzer.getBlameOptions(repoRoot),
+                    countMovedLines: (filePath, blameOptions, blameData) => analyzer.countMovedLines(filePath, blameOptions, blameData),
+                    excludeFiles: options.excludeFiles
+                });
+                targets.push({
+                    path: targetPath,
+                    contributors: ownership.directories.get('') || [],
+                    ignoreRevsApplied: ownership.ignoreRevsApplied,
+                    movedLines: ownership.movedLines,
+                    excludedLines: ownership.excludedLines,
+                    analyzedFiles: ownership.analyzedFiles,
+                    skippedFiles: ownership.skippedFiles,
+                    excludedFiles: ownership.excludedFiles
+                });
+            } else {
+                if (!await gitRunner.isInGitRepository(absolutePath)) {
+                    throw new Error('not in a Git repository');
+                }
+                const report = await analyzer.analyzeFile(absolutePath, fs.readFileSync(absolutePath, 'utf8'));
+                targets.push({
+                    path: targetPath,
+                    contributors: report.contributors,
+                    ignoreRevsApplied: report.ignoreRevsApplied,
+                    movedLines: report.movedLines,
+                    excludedLines: report.excludedLines,
+                    analyzedFiles: 1,
+                    skippedFiles: 0,
+                    excludedFiles: 0
+                });
+            }
+        } catch (error) {
+            console.error(`git-flex: ${targetPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            exitCode = 1;
+        }
+    }
+
+    if (options.top !== undefined) {
+        const top = options.top;
+        for (const target of targets) {
+            target.contributors = target.contributors.slice(0, top);
+        }
+    }
+
+    if (targets.length > 0) {
+        console.log(formatter.format(targets, options.format));
+    }
+    return exitCode;
+}
+
+async function main() {
+    let options: CliOptions | null;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`git-flex: ${error.message}\n\n${USAGE}`);
+            process.exit(2);
+        }
+        throw error;
+    }
+
+    if (!options) {
+        console.log(USAGE);
+        return;
+    }
+
+    try {
+        process.exitCode = await run(options);
+    } catch (error) {
+        console.error(`git-flex: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        process.exitCode = 1;
+    }
+}
+
+main();
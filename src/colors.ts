@@ -0,0 +1,29 @@
+import { UNCOMMITTED_AUTHOR, identityKey } from './core';
+
+const UNCOMMITTED_HUE = -1;
+
+// FNV-1a, so an identity keeps its color across files and sessions
+export function getIdentityHue(author: string, email: string): number {
+    if (author === UNCOMMITTED_AUTHOR) {
+        return UNCOMMITTED_HUE;
+    }
+
+    const key = identityKey(author, email);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % 360;
+}
+
+export function getHueColor(hue: number, alpha: number = 1): string {
+    if (hue === UNCOMMITTED_HUE) {
+        return `hsla(0, 0%, 55%, ${alpha})`;
+    }
+    return `hsla(${hue}, 65%, 50%, ${alpha})`;
+}
+
+export function getIdentityColor(author: string, email: string, alpha: number = 1): string {
+    return getHueColor(getIdentityHue(author, email), alpha);
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { ContributorMetrics, MetricsCalculator } from './core';
+import { getIdentityColor } from './colors';
+
+interface ChartData {
+    title: string;
+    contributors: ContributorMetrics[];
+}
+
+// Authors beyond this are folded into "Others" to keep the bars readable
+const MAX_BARS = 10;
+
+// Bar chart of the active file's contributors, measured in the configured countMode
+export class ContributorsChartView implements vscode.WebviewViewProvider {
+    private view: vscode.WebviewView | undefined;
+    private data: ChartData | undefined;
+
+    constructor(private metricsCalculator: MetricsCalculator) {}
+
+    resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.view = webviewView;
+        webviewView.webview.options = { enableScripts: false };
+        webviewView.onDidDispose(() => {
+            this.view = undefined;
+        });
+        this.render();
+    }
+
+    update(data: ChartData | undefined): void {
+        this.data = data;
+        this.render();
+    }
+
+    private render(): void {
+        if (!this.view) {
+            return;
+        }
+        this.view.description = this.data ? this.data.title : undefined;
+        this.view.webview.html = this.renderHtml(this.view.webview);
+    }
+
+    private renderHtml(webview: vscode.Webview): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 4px 8px; }
+    .row { margin: 6px 0; }
+    .label { display: flex; justify-content: space-between; gap: 8px; }
+    .name { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .value { color: var(--vscode-descriptionForeground); white-space: nowrap; }
+    .track { height: 8px; margin-top: 2px; background: var(--vscode-editorWidget-background); border-radius: 2px; }
+    .bar { height: 100%; border-radius: 2px; }
+    .empty, .total { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+${this.renderBody()}
+</body>
+</html>`;
+    }
+
+    private renderBody(): string {
+        if (!this.data || this.data.contributors.length === 0) {
+            return '<p class="empty">No contribution data for the active editor.</p>';
+        }
+
+        const { contributors } = this.data;
+        const unit = this.metricsCalculator.getUnit(undefined, true);
+        const bars = contributors.slice(0, MAX_BARS).map(contributor => ({
+            author: contributor.author,
+            value: this.metricsCalculator.getCountValue(contributor),
+            percentage: contributor.percentage,
+            color: getIdentityColor(contributor.author, contributor.email)
+        }));
+
+        const others = contributors.slice(MAX_BARS);
+        if (others.length > 0) {
+            bars.push({
+                author: `Others (${others.length})`,
+                value: others.reduce((sum, c) => sum + this.metricsCalculator.getCountValue(c), 0),
+                percentage: others.reduce((sum, c) => sum + c.percentage, 0),
+                color: 'hsla(0, 0%, 70%, 1)'
+            });
+        }
+
+        const maxValue = Math.max(...bars.map(bar => bar.value), 1);
+        const rows = bars.map(bar => `<div class="row">
+    <div class="label"><span class="name">${this.escape(bar.author)}</span><span class="value">${bar.percentage}% · ${this.metricsCalculator.formatCountValue(bar.value)} ${unit}</span></div>
+    <div class="track"><div class="bar" style="width:${((bar.value / maxValue) * 100).toFixed(1)}%;background:${bar.color}"></div></div>
+</div>`).join('\n');
+
+        const total = contributors.reduce((sum, c) => sum + this.metricsCalculator.getCountValue(c), 0);
+        return `${rows}
+<p class="total">Total: ${this.metricsCalculator.formatCountValue(total)} ${this.metricsCalculator.getUnit()}</p>`;
+    }
+
+    private escape(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    BlameLineData,
+    CommitContribution,
+    ContributorMetrics,
+    ContributorReport,
+    LineRange,
+    MetricsCalculator,
+    UNCOMMITTED_HASH,
+    findAuthorHunks,
+    identityKey
+} from './core';
+import { AuthorHeatmap } from './heatmap';
+
+export type ContributorNode =
+    | { kind: 'author'; contributor: ContributorMetrics }
+    | { kind: 'hunks'; contributor: ContributorMetrics }
+    | { kind: 'commits'; contributor: ContributorMetrics }
+    | { kind: 'hunk'; hunk: LineRange }
+    | { kind: 'commit'; contribution: CommitContribution };
+
+interface TreeSource {
+    uri: vscode.Uri;
+    report: ContributorReport;
+    // Decides what counts as a comment in the 'code' count mode
+    languageId: string;
+    // Blame is only needed once an author is expanded
+    loadBlameData: () => Promise<BlameLineData[]>;
+}
+
+export class ContributorsTreeProvider implements vscode.TreeDataProvider<ContributorNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<ContributorNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private source: TreeSource | undefined;
+    private blameData: Promise<BlameLineData[]> | undefined;
+
+    constructor(private metricsCalculator: MetricsCalculator, private heatmap: AuthorHeatmap) {}
+
+    getSourceUri(): vscode.Uri | undefined {
+        return this.source?.uri;
+    }
+
+    update(source: TreeSource | undefined): void {
+        this.source = source;
+        this.blameData = undefined;
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: ContributorNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'author':
+                return this.createAuthorItem(node.contributor);
+            case 'hunks':
+                return new vscode.TreeItem('Hunks', vscode.TreeItemCollapsibleState.Collapsed);
+            case 'commits':
+                return new vscode.TreeItem('Commits', vscode.TreeItemCollapsibleState.Collapsed);
+            case 'hunk':
+                return this.createHunkItem(node.hunk);
+            case 'commit':
+                return this.createCommitItem(node.contribution);
+        }
+    }
+
+    async getChildren(node?: ContributorNode): Promise<ContributorNode[]> {
+        if (!this.source) {
+            return [];
+        }
+        if (!node) {
+            return this.source.report.contributors.map(contributor => ({ kind: 'author', contributor }));
+        }
+
+        switch (node.kind) {
+            case 'author':
+                return [{ kind: 'hunks', contributor: node.contributor }, { kind: 'commits', contributor: node.contributor }];
+            case 'hunks': {
+                const blameData = await this.getBlameData();
+                return findAuthorHunks(blameData, this.getIdentity(node.contributor)).map(hunk => ({ kind: 'hunk', hunk }));
+            }
+            case 'commits': {
+                const { languageId } = this.source;
+                const blameData = await this.getBlameData();
+                return this.metricsCalculator
+                    .calculateCommitContributions(blameData, this.getIdentity(node.contributor), languageId)
+                    .map(contribution => ({ kind: 'commit', contribution }));
+            }
+            default:
+                return [];
+        }
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private createAuthorItem(contributor: ContributorMetrics): vscode.TreeItem {
+        const item = new vscode.TreeItem(contributor.author, vscode.TreeItemCollapsibleState.Collapsed);
+        const lines = this.metricsCalculator.formatCountValue(contributor.lines);
+        const characters = this.metricsCalculator.formatCountValue(contributor.characters);
+        item.description = `${contributor.percentage}% · ${lines} lines · ${characters} chars`;
+        item.tooltip = contributor.email ? `${contributor.author} <${contributor.email}>` : contributor.author;
+        item.iconPath = this.heatmap.getLegendIcon(contributor.author, contributor.email);
+        item.contextValue = 'gitFlex.contributor';
+        return item;
+    }
+
+    private createHunkItem(hunk: LineRange): vscode.TreeItem {
+        const lineCount = hunk.end - hunk.start + 1;
+        const item = new vscode.TreeItem(hunk.start === hunk.end ? `Line ${hunk.start}` : `Lines ${hunk.start}–${hunk.end}`);
+        item.description = `${lineCount} ${lineCount === 1 ? 'line' : 'lines'}`;
+        item.iconPath = new vscode.ThemeIcon('list-selection');
+        if (this.source) {
+            item.command = {
+                command: 'vscode.open',
+                title: 'Go to Hunk',
+                arguments: [this.source.uri, { selection: new vscode.Range(hunk.start - 1, 0, hunk.end - 1, 0) }]
+            };
+        }
+        return item;
+    }
+
+    private createCommitItem(contribution: CommitContribution): vscode.TreeItem {
+        const uncommitted = contribution.commit === UNCOMMITTED_HASH;
+        const item = new vscode.TreeItem(uncommitted ? 'Uncommitted changes' : contribution.summary || contribution.commit.substring(0, 7));
+        const lines = this.metricsCalculator.formatCountValue(contribution.lines);
+        item.description = uncommitted
+            ? `${lines} lines`
+            : `${contribution.commit.substring(0, 7)} · ${this.metricsCalculator.formatDate(contribution.timestamp)} · ${lines} lines`;
+        item.iconPath = new vscode.ThemeIcon('git-commit');
+        if (this.source) {
+            item.tooltip = `${path.basename(this.source.uri.fsPath)}: open the diff of this commit`;
+            item.command = {
+                command: 'gitFlex.openCommitDiff',
+                title: 'Open Commit Diff',
+                arguments: [this.source.uri, contribution]
+            };
+        }
+        return item;
+    }
+
+    private getBlameData(): Promise<BlameLineData[]> {
+        if (!this.blameData && this.source) {
+            this.blameData = this.source.loadBlameData();
+            // Let a later expand retry instead of caching the failure
+            this.blameData.catch(() => {
+                this.blameData = undefined;
+            });
+        }
+        return this.blameData || Promise.resolve([]);
+    }
+
+    private getIdentity(contributor: ContributorMetrics): string {
+        return identityKey(contributor.author, contributor.email);
+    }
+}
@@ -0,0 +1,134 @@
+import { BlameOptions, GitRunner, LineRange, MoveDetection, appliesIgnoreRevs } from './gitRunner';
+import { BlameLineData, BlameParser } from './blameParser';
+import { languageForPath } from './commentStripper';
+import { ContributorReport, MetricsCalculator, ReportAdjustments } from './metrics';
+
+export interface AnalysisOptions {
+    ignoreRevisions: string[];
+    detectMoves: MoveDetection;
+}
+
+// Moved-line counts kept per file revision before the oldest are dropped
+const MAX_MOVED_LINE_COUNTS = 200;
+
+export class ContributorAnalyzer {
+    // Keyed by file revision and blame options: the count only changes with a commit
+    private movedLineCounts = new Map<string, number>();
+
+    constructor(
+        private gitRunner: GitRunner,
+        private blameParser: BlameParser,
+        private metricsCalculator: MetricsCalculator,
+        private options: AnalysisOptions = { ignoreRevisions: [], detectMoves: 'off' }
+    ) {}
+
+    setOptions(options: AnalysisOptions): void {
+        this.options = options;
+        this.movedLineCounts.clear();
+    }
+
+    async getBlameOptions(filePath: string, signal?: AbortSignal): Promise<BlameOptions> {
+        const configuredRevisions = this.options.ignoreRevisions;
+
+        return {
+            ignoreRevsFile: await this.gitRunner.getIgnoreRevsFile(filePath),
+            ignoreRevisions: configuredRevisions.length > 0
+                ? await this.gitRunner.verifyRevisions(filePath, configuredRevisions)
+                : [],
+            detectMoves: this.options.detectMoves,
+            coAuthors: this.metricsCalculator.getOptions().coAuthorCredit !== 'off',
+            signal
+        };
+    }
+
+    // Identifies the file's committed state; undefined when it has local changes or no history
+    async getRevisionKey(filePath: string, signal?: AbortSignal): Promise<string | undefined> {
+        if (!await this.gitRunner.isFileTracked(filePath, signal) || await this.gitRunner.isFileModified(filePath, signal)) {
+            return undefined;
+        }
+        const headBlob = await this.gitRunner.getHeadBlob(filePath, signal);
+        return headBlob ? `${headBlob.commit}:${headBlob.blob}` : undefined;
+    }
+
+    async getBlameData(filePath: string, fileContent: string, lineRanges: LineRange[] = [], signal?: AbortSignal): Promise<BlameLineData[]> {
+        const blameOptions = { ...await this.getBlameOptions(filePath, signal), lineRanges };
+        const blameData = await this.blameParser.getBlameData(filePath, fileContent, this.gitRunner, blameOptions);
+        this.throwIfCancelled(signal);
+        return blameData;
+    }
+
+    // languageId only matters for the 'code' count mode; editors pass the document's own
+    async analyzeFile(filePath: string, fileContent: string, lineRanges: LineRange[] = [], signal?: AbortSignal, languageId = languageForPath(filePath)): Promise<ContributorReport> {
+        const { report } = await this.analyzeBlame(filePath, fileContent, lineRanges, signal, languageId);
+        return report;
+    }
+
+    async analyzeBlame(filePath: string, fileContent: string, lineRanges: LineRange[] = [], signal?: AbortSignal, languageId = languageForPath(filePath)): Promise<{ blameData: BlameLineData[]; report: ContributorReport }> {
+        const blameOptions = { ...await this.getBlameOptions(filePath, signal), lineRanges };
+        const blameData = await this.blameParser.getBlameData(filePath, fileContent, this.gitRunner, blameOptions);
+        this.throwIfCancelled(signal);
+        const movedLines = await this.countMovedLines(filePath, blameOptions, blameData, signal);
+        this.throwIfCancelled(signal);
+
+        return {
+            blameData,
+            report: this.createReport(blameData, {
+                ignoreRevsApplied: appliesIgnoreRevs(blameOptions),
+                movedLines
+            }, languageId)
+        };
+    }
+
+    createReport(blameData: BlameLineData[], adjustments: ReportAdjustments, languageId?: string): ContributorReport {
+        return {
+            contributors: this.metricsCalculator.calculateContributions(blameData, languageId),
+            excludedLines: this.metricsCalculator.countExcludedLines(blameData),
+            ...adjustments
+        };
+    }
+
+    // Porcelain output doesn't mark moved lines, so compare with a blame without detection.
+    // That second blame runs once per committed revision; files with local changes aren't counted.
+    async countMovedLines(filePath: string, blameOptions: BlameOptions, blameData: BlameLineData[], signal?: AbortSignal): Promise<number> {
+        if (!blameOptions.detectMoves || blameOptions.detectMoves === 'off') {
+            return 0;
+        }
+
+        const revisionKey = await this.getRevisionKey(filePath, signal);
+        if (!revisionKey) {
+            return 0;
+        }
+        const ranges = (blameOptions.lineRanges || []).map(range => `${range.start}-${range.end}`).join(',');
+        const cacheKey = `${filePath}:${revisionKey}:${blameOptions.detectMoves}:${ranges}`;
+        const cached = this.movedLineCounts.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        // Only commit hashes are compared, so the co-author lookups can be skipped
+        const plainData = await this.blameParser.getBlameDataAtRevision(filePath, 'HEAD', this.gitRunner, {
+            ...blameOptions,
+            detectMoves: 'off',
+            coAuthors: false
+        });
+        const plainCommits = new Map(plainData.map(line => [line.lineNumber, line.commit]));
+        const movedLines = blameData.filter(line => {
+            const plainCommit = plainCommits.get(line.lineNumber);
+            return plainCommit !== undefined && plainCommit !== line.commit;
+        }).length;
+
+        if (this.movedLineCounts.size >= MAX_MOVED_LINE_COUNTS) {
+            const oldestKey = this.movedLineCounts.keys().next().value as string;
+            this.movedLineCounts.delete(oldestKey);
+        }
+        this.movedLineCounts.set(cacheKey, movedLines);
+        return movedLines;
+    }
+
+    // Lookups that were cancelled midway fall back to "untracked" answers; never let those through
+    private throwIfCancelled(signal?: AbortSignal): void {
+        if (signal && signal.aborted) {
+            throw new Error('Analysis cancelled');
+        }
+    }
+}
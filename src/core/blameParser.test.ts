@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { BlameParser } from './blameParser';
+import { GitRunner } from './gitRunner';
+import { identityKey } from './identity';
+import { findAuthorHunks } from './hunks';
+
+const ALICE = 'a'.repeat(40);
+const BOB = 'b'.repeat(40);
+
+function porcelainLine(commit: string, author: string, lineNumber: number, content: string): string {
+    return [
+        `${commit} ${lineNumber} ${lineNumber} 1`,
+        `author ${author}`,
+        `author-mail <${author.toLowerCase()}@example.com>`,
+        'author-time 1700000000',
+        'author-tz +0000',
+        `committer ${author}`,
+        `committer-mail <${author.toLowerCase()}@example.com>`,
+        'committer-time 1700000000',
+        'committer-tz +0000',
+        `summary ${author}'s change`,
+        'filename file.ts',
+        `\t${content}`
+    ].join('\n');
+}
+
+// Answers like git would for a tracked, unmodified file
+function fakeGitRunner(blameOutput: string): GitRunner {
+    return {
+        isFileTracked: async () => true,
+        isFileModified: async () => false,
+        getBlame: async () => blameOutput,
+        getCoAuthors: async () => new Map([[BOB, ['Old Carol <carol@old.example.com>', 'Bob <bob@example.com>']]]),
+        checkMailmap: async (_filePath: string, contacts: string[]) => new Map(contacts.map(contact =>
+            [contact, contact === 'Old Carol <carol@old.example.com>' ? 'Carol <carol@example.com>' : contact]))
+    } as unknown as GitRunner;
+}
+
+describe('BlameParser', () => {
+    const lines: Array<[string, string, string]> = [
+        [ALICE, 'Alice', 'function a() {'],
+        [ALICE, 'Alice', ''],
+        [ALICE, 'Alice', '    return 1;'],
+        [ALICE, 'Alice', '}'],
+        [ALICE, 'Alice', ''],
+        [BOB, 'Bob', 'function b() {'],
+        [BOB, 'Bob', ''],
+        [BOB, 'Bob', '    return 2;'],
+        [BOB, 'Bob', ''],
+        [BOB, 'Bob', '}'],
+        [BOB, 'Bob', '']
+    ];
+    const content = lines.map(([, , text]) => text).join('\n');
+    const output = lines.map(([commit, author, text], index) => porcelainLine(commit, author, index + 1, text)).join('\n') + '\n';
+
+    test('keeps blank lines', async () => {
+        const blameData = await new BlameParser().getBlameData('/repo/file.ts', content, fakeGitRunner(output));
+
+        expect(blameData.map(line => line.lineNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+        expect(blameData[1]).toMatchObject({ author: 'Alice', content: '' });
+    });
+
+    test('gives one contiguous hunk per author across blank lines', async () => {
+        const blameData = await new BlameParser().getBlameData('/repo/file.ts', content, fakeGitRunner(output));
+
+        expect(findAuthorHunks(blameData, identityKey('Alice', 'alice@example.com'))).toEqual([{ start: 1, end: 5 }]);
+        expect(findAuthorHunks(blameData, identityKey('Bob', 'bob@example.com'))).toEqual([{ start: 6, end: 11 }]);
+    });
+
+    test('applies .mailmap to co-authors and drops the author listing themselves', async () => {
+        const blameData = await new BlameParser().getBlameData('/repo/file.ts', content, fakeGitRunner(output), { coAuthors: true });
+
+        expect(blameData[0].coAuthors).toBeUndefined();
+        expect(blameData[5].coAuthors).toEqual([{ name: 'Carol', email: 'carol@example.com' }]);
+    });
+});
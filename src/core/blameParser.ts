@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { BlameOptions, GitRunner } from './gitRunner';
+import { AuthorIdentity, IdentityResolver, UNCOMMITTED_AUTHOR, identityKey } from './identity';
+
+export interface BlameLineData {
+    author: string;
+    email: string;
+    commit: string;
+    // Author time in unix seconds
+    timestamp: number;
+    lineNumber: number;
+    content: string;
+    summary: string;
+    // Repository-relative path of the file in that commit
+    filename: string;
+    // Parent commit and path the line is compared against; missing for root commits
+    previous?: { commit: string; filename: string };
+    // From the commit's Co-authored-by trailers, excluding the author
+    coAuthors?: AuthorIdentity[];
+}
+
+export const UNCOMMITTED_HASH = '0000000000000000000000000000000000000000';
+
+export class BlameParser {
+    constructor(private identityResolver: IdentityResolver = new IdentityResolver()) {}
+
+    setIdentityResolver(identityResolver: IdentityResolver): void {
+        this.identityResolver = identityResolver;
+    }
+
+    async getBlameData(filePath: string, fileContent: string, gitRunner: GitRunner, options: BlameOptions = {}): Promise<BlameLineData[]> {
+        // Untracked files have no history to blame: every line is uncommitted
+        const isTracked = await gitRunner.isFileTracked(filePath, options.signal);
+        if (!isTracked) {
+            return this.parseBlameOutput('', fileContent);
+        }
+        
+        const isModified = await gitRunner.isFileModified(filePath, options.signal);
+        
+        let tempFilePath: string | undefined;
+        
+        try {
+            // If file is modified, create temp file with current content
+            if (isModified) {
+                tempFilePath = await this.createTempFile(fileContent);
+            }
+            
+            // Get blame output
+            const blameOutput = await gitRunner.getBlame(filePath, tempFilePath, options);
+            
+            // Parse blame output
+            const result = this.parseBlameOutput(blameOutput, fileContent);
+            if (options.coAuthors) {
+                await this.attachCoAuthors(filePath, result, gitRunner, options.signal);
+            }
+            
+            // Keep the uncommitted fallback from leaking outside the requested ranges
+            const ranges = options.lineRanges || [];
+            if (ranges.length === 0) {
+                return result;
+            }
+            return result.filter(line => ranges.some(range => line.lineNumber >= range.start && line.lineNumber <= range.end));
+            
+        } finally {
+            // Clean up temp file
+            if (tempFilePath) {
+                try {
+                    fs.unlinkSync(tempFilePath);
+                } catch {
+                    // Ignore cleanup errors
+                }
+            }
+        }
+    }
+    
+    // filePath is where the file lived at that revision
+    async getBlameDataAtRevision(filePath: string, revision: string, gitRunner: GitRunner, options: BlameOptions = {}): Promise<BlameLineData[]> {
+        const blameOutput = await gitRunner.getBlame(filePath, undefined, options, revision);
+
+        // The porcelain output carries every line of the file at that revision
+        const fileContent = blameOutput
+            .split('\n')
+            .filter(line => line.startsWith('\t'))
+            .map(line => line.substring(1))
+            .join('\n');
+
+        // With -L only the requested lines come back, so their numbers can run past the content
+        const lineCount = options.lineRanges && options.lineRanges.length > 0 ? Number.MAX_SAFE_INTEGER : undefined;
+        const result = this.parseBlameOutput(blameOutput, fileContent, lineCount);
+        if (options.coAuthors) {
+            await this.attachCoAuthors(filePath, result, gitRunner, options.signal);
+        }
+        return result;
+    }
+
+    private async attachCoAuthors(filePath: string, blameData: BlameLineData[], gitRunner: GitRunner, signal?: AbortSignal): Promise<void> {
+        const commits = Array.from(new Set(blameData.map(line => line.commit))).filter(commit => commit !== UNCOMMITTED_HASH);
+        if (commits.length === 0) {
+            return;
+        }
+
+        const trailers = await gitRunner.getCoAuthors(filePath, commits, signal);
+        // Blame authors come through .mailmap, so co-authors have to as well to be the same people
+        const contacts = Array.from(new Set(Array.from(trailers.values()).flat()));
+        const mailmapped = await gitRunner.checkMailmap(filePath, contacts, signal);
+        const resolved = new Map<string, AuthorIdentity[]>();
+        for (const [commit, values] of trailers.entries()) {
+            resolved.set(commit, values.map(value => {
+                const match = (mailmapped.get(value) || value).match(/^(.*?)\s*<([^>]*)>\s*$/);
+                return match ? this.identityResolver.resolve(match[1], match[2]) : this.identityResolver.resolve(value, '');
+            }));
+        }
+
+        for (const line of blameData) {
+            const coAuthors = resolved.get(line.commit);
+            if (!coAuthors) {
+                continue;
+            }
+            // Drop the author listing themselves and duplicate trailers
+            const seen = new Set([identityKey(line.author, line.email)]);
+            line.coAuthors = coAuthors.filter(identity => {
+                const key = identityKey(identity.name, identity.email);
+                if (seen.has(key)) {
+                    return false;
+                }
+                seen.add(key);
+                return true;
+            });
+        }
+    }
+    
+    private async createTempFile(content: string): Promise<string> {
+        const tempDir = os.tmpdir();
+        const tempFileName = `vscode-blame-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.tmp`;
+        const tempFilePath = path.join(tempDir, tempFileName);
+        
+        fs.writeFileSync(tempFilePath, content, 'utf8');
+        return tempFilePath;
+    }
+    
+    private parseBlameOutput(blameOutput: string, fileContent: string, lineCount?: number): BlameLineData[] {
+        const lines = blameOutput.split('\n');
+        const fileLines = fileContent.split('\n');
+        const maxLineNumber = lineCount === undefined ? fileLines.length : lineCount;
+        const result: BlameLineData[] = [];
+        
+        let currentCommit = '';
+        let currentAuthor = '';
+        let currentEmail = '';
+        let currentTimestamp = 0;
+        let currentSummary = '';
+        let currentFilename = '';
+        let currentPrevious: { commit: string; filename: string } | undefined;
+        let currentLineNumber = 0;
+        let lineIndex = 0;
+        
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            
+            // Blank file lines come through as a lone tab and are kept; isExcluded decides about them
+            if (line === '') {
+                continue;
+            }
+            
+            // Check if this is a commit hash line (start of new blame block)
+            if (line.match(/^[0-9a-f]{40}/)) {
+                const parts = line.split(' ');
+                currentCommit = parts[0];
+                currentLineNumber = parseInt(parts[2], 10);
+                continue;
+            }
+            
+            // Parse metadata lines
+            if (line.startsWith('author ')) {
+                currentAuthor = line.substring(7); // Remove 'author ' prefix
+                continue;
+            }
+            
+            if (line.startsWith('author-mail ')) {
+                currentEmail = line.substring(12); // Remove 'author-mail ' prefix
+                // If we don't have an author name, use email (without < >)
+                if (!currentAuthor) {
+                    currentAuthor = currentEmail.replace(/^<|>$/g, '');
+                }
+                continue;
+            }
+            
+            if (line.startsWith('author-time ')) {
+                currentTimestamp = parseInt(line.substring(12), 10) || 0;
+                continue;
+            }
+            
+            if (line.startsWith('summary ')) {
+                currentSummary = line.substring(8);
+                continue;
+            }
+
+            if (line.startsWith('filename ')) {
+                currentFilename = line.substring(9);
+                continue;
+            }
+
+            if (line.startsWith('previous ')) {
+                const separator = line.indexOf(' ', 9);
+                currentPrevious = {
+                    commit: line.substring(9, separator),
+                    filename: line.substring(separator + 1)
+                };
+                continue;
+            }
+            
+            // Skip other metadata lines
+            if (line.startsWith('author-tz ') ||
+                line.startsWith('committer ') ||
+                line.startsWith('committer-mail ') ||
+                line.startsWith('committer-time ') ||
+                line.startsWith('committer-tz ') ||
+                line.startsWith('boundary')) {
+                continue;
+            }
+            
+            // This should be the actual file content line
+            if (line.startsWith('\t')) {
+                const content = line.substring(1); // Remove leading tab
+                
+                // Ensure we have valid data
+                if (currentAuthor && currentLineNumber > 0) {
+                    // Verify line number is within bounds
+                    if (currentLineNumber <= maxLineNumber) {
+                        const identity = this.identityResolver.resolve(currentAuthor, currentEmail);
+                        result.push({
+                            author: identity.name,
+                            email: identity.email,
+                            commit: currentCommit,
+                            timestamp: currentTimestamp,
+                            lineNumber: currentLineNumber,
+                            content: content,
+                            summary: currentSummary,
+                            filename: currentFilename,
+                            previous: currentPrevious
+                        });
+                    }
+                }
+                
+                // Reset for next line
+                currentAuthor = '';
+                currentEmail = '';
+                currentTimestamp = 0;
+                currentSummary = '';
+                currentFilename = '';
+                currentPrevious = undefined;
+                currentLineNumber = 0;
+                lineIndex++;
+            }
+        }
+        
+        // Handle case where file has uncommitted changes or is untracked
+        if (result.length === 0 && fileContent.trim()) {
+            // All lines are uncommitted, attribute to current user
+            const fileLines = fileContent.split('\n');
+            const now = Math.floor(Date.now() / 1000);
+            for (let i = 0; i < fileLines.length; i++) {
+                result.push({
+                    author: UNCOMMITTED_AUTHOR,
+                    email: '',
+                    commit: UNCOMMITTED_HASH,
+                    timestamp: now,
+                    lineNumber: i + 1,
+                    content: fileLines[i],
+                    summary: '',
+                    filename: ''
+                });
+            }
+        }
+        
+        return result;
+    }
+}
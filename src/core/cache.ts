@@ -1,9 +1,9 @@
 import * as fs from 'fs';
 import * as crypto from 'crypto';
-import { ContributorMetrics } from './metrics';
+import { ContributorReport } from './metrics';
 
 interface CacheEntry {
-    data: ContributorMetrics[];
+    data: ContributorReport;
     timestamp: number;
     ttl: number;
 }
@@ -31,7 +31,7 @@ export class ContributorCache {
         }
     }
 
-    get(key: string): ContributorMetrics[] | null {
+    get(key: string): ContributorReport | null {
         const entry = this.cache.get(key);
         
         if (!entry) {
@@ -45,13 +45,19 @@ export class ContributorCache {
             return null;
         }
 
+        // Re-insert so the Map order stays least recently used first
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+
         return entry.data;
     }
 
-    set(key: string, data: ContributorMetrics[], ttl: number = this.defaultTTL): void {
+    set(key: string, data: ContributorReport, ttl: number = this.defaultTTL): void {
+        this.cache.delete(key);
+
         // Enforce cache size limit
         if (this.cache.size >= this.maxCacheSize) {
-            // Remove oldest entries (simple LRU-like behavior)
+            // Remove the least recently used entry
             const oldestKey = this.cache.keys().next().value;
             if (oldestKey) {
                 this.cache.delete(oldestKey);
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { CodeOwners } from './codeOwners';
+import { ContributorMetrics } from './metrics';
+import { TeamMapping } from './teams';
+
+function contributor(author: string, email: string, percentage: number): ContributorMetrics {
+    return { author, email, lines: percentage, characters: 0, weightedLines: 0, coAuthoredLines: 0, percentage, newestTimestamp: 0, oldestTimestamp: 0 };
+}
+
+function owners(text: string): CodeOwners {
+    return new CodeOwners(CodeOwners.parse(text));
+}
+
+describe('CodeOwners', () => {
+    test('lets a wildcard only match files directly inside the directory', () => {
+        const codeOwners = owners('docs/* @docs');
+
+        expect(codeOwners.getOwners('docs/getting-started.md')).toEqual(['@docs']);
+        expect(codeOwners.getOwners('docs/build-app/troubleshooting.md')).toEqual([]);
+    });
+
+    test('matches everything below directories and bare names', () => {
+        const codeOwners = owners([
+            '/apps/ @octocat',
+            '/apps/github @doctocat',
+            'logs/ @logs',
+            '**/fixtures @qa',
+            'Makefile @build'
+        ].join('\n'));
+
+        expect(codeOwners.getOwners('apps/web/index.ts')).toEqual(['@octocat']);
+        expect(codeOwners.getOwners('apps/github/deep/index.ts')).toEqual(['@doctocat']);
+        expect(codeOwners.getOwners('src/apps/index.ts')).toEqual([]);
+        expect(codeOwners.getOwners('build/logs/today.txt')).toEqual(['@logs']);
+        expect(codeOwners.getOwners('test/fixtures/a/b.json')).toEqual(['@qa']);
+        expect(codeOwners.getOwners('tools/Makefile')).toEqual(['@build']);
+    });
+
+    test('lets the last matching rule win and keeps GitLab sections apart', () => {
+        const codeOwners = owners([
+            '* @everyone # fallback',
+            '*.ts @typescript',
+            '',
+            '[Docs] @writers',
+            'docs/',
+            '^[Optional][2] @reviewers',
+            'docs/api\\ reference/ @api'
+        ].join('\n'));
+
+        expect(codeOwners.getOwners('src/index.ts')).toEqual(['@typescript']);
+        expect(codeOwners.getOwners('README.md')).toEqual(['@everyone']);
+        expect(codeOwners.getOwners('docs/api reference/index.md')).toEqual(['@everyone', '@writers', '@api']);
+        expect(codeOwners.rules[2]).toMatchObject({ pattern: 'docs/', owners: ['@writers'], section: 'Docs', lineNumber: 5 });
+    });
+
+    test('recognizes owners by email, user name, noreply address, team and configured handle', () => {
+        const teams = new TeamMapping([{ name: 'web', members: ['*@web.example.com'] }]);
+        const options = { handles: { '@carol': ['carol.w@example.com'] }, teams };
+
+        expect(CodeOwners.isOwner('alice@example.com', contributor('Alice', 'Alice@Example.com', 10), options)).toBe(true);
+        expect(CodeOwners.isOwner('@alice', contributor('Alice', 'alice@example.com', 10), options)).toBe(true);
+        expect(CodeOwners.isOwner('@octocat', contributor('Octo', '12345+octocat@users.noreply.github.com', 10), options)).toBe(true);
+        expect(CodeOwners.isOwner('@org/web', contributor('Dave', 'dave@web.example.com', 10), options)).toBe(true);
+        expect(CodeOwners.isOwner('@carol', contributor('Carol', 'carol.w@example.com', 10), options)).toBe(true);
+        expect(CodeOwners.isOwner('@alice', contributor('Bob', 'bob@example.com', 10), options)).toBe(false);
+    });
+
+    test('flags a mismatch when no declared owner holds the minimum share', () => {
+        const codeOwners = owners('src/ @alice');
+        const contributors = [contributor('Bob', 'bob@example.com', 85), contributor('Alice', 'alice@example.com', 15)];
+
+        expect(codeOwners.compare('src/a.ts', contributors, 0.2, { handles: {} }).mismatch).toBe(true);
+        expect(codeOwners.compare('src/a.ts', contributors, 0.1, { handles: {} }).mismatch).toBe(false);
+        expect(codeOwners.compare('lib/a.ts', contributors, 0.2, { handles: {} }).mismatch).toBe(false);
+    });
+});
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GlobMatcher } from './globMatcher';
+import { UNCOMMITTED_AUTHOR } from './identity';
+import { ContributorMetrics } from './metrics';
+import { TeamMapping } from './teams';
+
+// Where GitHub and GitLab look, in their order of precedence
+export const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', '.gitlab/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeOwnersRule {
+    pattern: string;
+    owners: string[];
+    // GitLab [Section] the rule belongs to; '' before any section
+    section: string;
+    lineNumber: number;
+}
+
+// Declared owners (@user, @org/team or email) mapped to the emails they commit with
+export interface OwnerHandles {
+    [owner: string]: string[];
+}
+
+export interface DeclaredOwnerShare {
+    owner: string;
+    percentage: number;
+    contributors: ContributorMetrics[];
+}
+
+export interface CodeOwnersComparison {
+    declaredOwners: string[];
+    shares: DeclaredOwnerShare[];
+    // Owners are declared but none of them holds the minimum share
+    mismatch: boolean;
+}
+
+export interface CodeOwnersMatchOptions {
+    handles: OwnerHandles;
+    teams?: TeamMapping;
+}
+
+// GitHub noreply addresses carry the user name: 12345+octocat@users.noreply.github.com
+const NOREPLY_PATTERN = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/;
+
+export class CodeOwners {
+    private matchers: GlobMatcher[];
+
+    constructor(public readonly rules: CodeOwnersRule[], public readonly source: string = '') {
+        this.matchers = rules.map(rule => new GlobMatcher([rule.pattern], false));
+    }
+
+    // Undefined when the repository declares no owners
+    static async load(repoRoot: string): Promise<CodeOwners | undefined> {
+        for (const location of CODEOWNERS_LOCATIONS) {
+            const filePath = path.join(repoRoot, location);
+            try {
+                return new CodeOwners(CodeOwners.parse(await fs.promises.readFile(filePath, 'utf8')), filePath);
+            } catch {
+                continue;
+            }
+        }
+        return undefined;
+    }
+
+    static parse(text: string): CodeOwnersRule[] {
+        const rules: CodeOwnersRule[] = [];
+        let section = '';
+        let sectionOwners: string[] = [];
+
+        text.split(/\r?\n/).forEach((rawLine, index) => {
+            const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+            if (!line) {
+                return;
+            }
+
+            // GitLab: ^[Section][2] @default-owners
+            const header = line.match(/^\^?\[([^\]]+)\](?:\[\d+\])?\s*(.*)$/);
+            if (header) {
+                section = header[1];
+                sectionOwners = header[2].split(/\s+/).filter(owner => owner.length > 0);
+                return;
+            }
+
+            const [pattern, ...owners] = (line.match(/(?:\\\s|\S)+/g) || []).map(token => token.replace(/\\(\s)/g, '$1'));
+            rules.push({ pattern, owners: owners.length > 0 ? owners : sectionOwners, section, lineNumber: index + 1 });
+        });
+        return rules;
+    }
+
+    // The last matching rule wins; GitLab sections each contribute their own last match
+    getOwners(relativePath: string): string[] {
+        const lastBySection = new Map<string, CodeOwnersRule>();
+        this.rules.forEach((rule, index) => {
+            if (this.matchers[index].matches(relativePath)) {
+                lastBySection.set(rule.section, rule);
+            }
+        });
+
+        const owners: string[] = [];
+        lastBySection.forEach(rule => {
+            for (const owner of rule.owners) {
+                if (!owners.includes(owner)) {
+                    owners.push(owner);
+                }
+            }
+        });
+        return owners;
+    }
+
+    compare(relativePath: string, contributors: ContributorMetrics[], minShare: number, options: CodeOwnersMatchOptions): CodeOwnersComparison {
+        const declaredOwners = this.getOwners(relativePath);
+        const shares = declaredOwners.map(owner => {
+            const matched = contributors.filter(contributor => CodeOwners.isOwner(owner, contributor, options));
+            return {
+                owner,
+                percentage: matched.reduce((sum, contributor) => sum + contributor.percentage, 0),
+                contributors: matched
+            };
+        });
+
+        const threshold = Math.round(Math.min(1, Math.max(0, minShare)) * 100);
+        return {
+            declaredOwners,
+            shares,
+            mismatch: declaredOwners.length > 0 && contributors.length > 0 && !shares.some(share => share.percentage >= threshold)
+        };
+    }
+
+    static isOwner(owner: string, contributor: ContributorMetrics, options: CodeOwnersMatchOptions): boolean {
+        if (contributor.author === UNCOMMITTED_AUTHOR || !contributor.email) {
+            return false;
+        }
+        const email = contributor.email.toLowerCase();
+        const normalizedOwner = owner.toLowerCase();
+
+        const configured = Object.keys(options.handles).find(handle => handle.toLowerCase() === normalizedOwner);
+        if (configured && options.handles[configured].some(alias => alias.trim().toLowerCase() === email)) {
+            return true;
+        }
+        if (!normalizedOwner.startsWith('@')) {
+            return normalizedOwner === email;
+        }
+
+        const handle = normalizedOwner.substring(1);
+        if (handle.includes('/')) {
+            // @org/team: a team from the teams file with the same name, with or without the org
+            const team = options.teams ? options.teams.getTeam(email).toLowerCase() : undefined;
+            return !!team && (team === handle || team === handle.substring(handle.indexOf('/') + 1));
+        }
+        const noreply = email.match(NOREPLY_PATTERN);
+        return (noreply ? noreply[1] : email.substring(0, email.indexOf('@'))) === handle;
+    }
+
+    // The reverse of isOwner for proposals: configured handle, GitHub user from a noreply address, or the email
+    static toOwner(contributor: Pick<ContributorMetrics, 'email'>, handles: OwnerHandles): string {
+        const email = contributor.email.toLowerCase();
+        const configured = Object.keys(handles).find(handle => handles[handle].some(alias => alias.trim().toLowerCase() === email));
+        if (configured) {
+            return configured;
+        }
+        const noreply = email.match(NOREPLY_PATTERN);
+        return noreply ? `@${noreply[1]}` : email;
+    }
+}
+
+export interface CodeOwnersSuggestion {
+    // Repository-relative, '/'-separated; '' is the repository root
+    directory: string;
+    owners: string[];
+    current: string[];
+}
+
+// One proposal per directory whose owners differ from its parent's, ordered parents first
+// so that the more specific entries come later and win
+export function suggestCodeOwners(
+    directories: Map<string, ContributorMetrics[]>,
+    codeOwners: CodeOwners | undefined,
+    options: { minShare: number; maxOwners: number; handles: OwnerHandles }
+): CodeOwnersSuggestion[] {
+    const threshold = Math.round(Math.min(1, Math.max(0, options.minShare)) * 100);
+    const proposed = new Map<string, string[]>();
+    const suggestions: CodeOwnersSuggestion[] = [];
+
+    const sorted = Array.from(directories.keys()).sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+    for (const directory of sorted) {
+        const contributors = (directories.get(directory) || []).filter(c => c.author !== UNCOMMITTED_AUTHOR && c.email);
+        const strong = contributors.filter(c => c.percentage >= threshold);
+        const owners = (strong.length > 0 ? strong : contributors.slice(0, 1))
+            .slice(0, Math.max(1, options.maxOwners))
+            .map(contributor => CodeOwners.toOwner(contributor, options.handles));
+        proposed.set(directory, owners);
+        if (owners.length === 0) {
+            continue;
+        }
+
+        const parent = directory.includes('/') ? directory.substring(0, directory.lastIndexOf('/')) : '';
+        const inherited = directory === '' ? [] : proposed.get(parent) || [];
+        const current = codeOwners ? codeOwners.getOwners(directory ? `${directory}/` : '') : [];
+        if (sameOwners(owners, inherited) || sameOwners(owners, current)) {
+            continue;
+        }
+        suggestions.push({ directory, owners, current });
+    }
+    return suggestions;
+}
+
+function sameOwners(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every(owner => b.includes(owner));
+}
+
+// Entries to append at the end of CODEOWNERS, where they take precedence over earlier rules
+export function formatCodeOwnersSuggestions(suggestions: CodeOwnersSuggestion[]): string[] {
+    const lines: string[] = [];
+    for (const suggestion of suggestions) {
+        if (suggestion.current.length > 0) {
+            lines.push(`# currently: ${suggestion.current.join(' ')}`);
+        }
+        const pattern = suggestion.directory ? `/${suggestion.directory.replace(/ /g, '\\ ')}/` : '*';
+        lines.push(`${pattern} ${suggestion.owners.join(' ')}`);
+    }
+    return lines;
+}
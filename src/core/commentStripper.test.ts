@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { CommentStripper, languageForPath } from './commentStripper';
+
+function stripAll(languageId: string, lines: string[]): string[] {
+    const stripper = CommentStripper.forLanguage(languageId);
+    if (!stripper) {
+        throw new Error(`No comment syntax for ${languageId}`);
+    }
+    return lines.map(line => stripper.strip(line).trimEnd());
+}
+
+describe('CommentStripper', () => {
+    test('knows languages by extension and has no syntax for unknown ones', () => {
+        expect(languageForPath('src/App.TSX')).toBe('typescriptreact');
+        expect(languageForPath('scripts/build.sh')).toBe('shellscript');
+        expect(languageForPath('README.md')).toBeUndefined();
+        expect(CommentStripper.forLanguage('markdown')).toBeUndefined();
+        expect(CommentStripper.forLanguage(undefined)).toBeUndefined();
+    });
+
+    test('removes line and block comments and carries blocks across lines', () => {
+        expect(stripAll('typescript', [
+            'const a = 1; // one',
+            '/* start',
+            '   still a comment',
+            'end */ const b = 2;',
+            'const c = /* inline */ 3;'
+        ])).toEqual(['const a = 1;', '', '', ' const b = 2;', 'const c =  3;']);
+    });
+
+    test('leaves comment markers inside strings alone', () => {
+        expect(stripAll('typescript', [
+            'const url = "http://example.com"; // link',
+            'const glob = \'src/*.ts\';',
+            'const template = `/* not a comment */`;',
+            'const escaped = "a \\" // still a string";'
+        ])).toEqual([
+            'const url = "http://example.com";',
+            'const glob = \'src/*.ts\';',
+            'const template = `/* not a comment */`;',
+            'const escaped = "a \\" // still a string";'
+        ]);
+    });
+
+    test('treats rust lifetimes as code', () => {
+        expect(stripAll('rust', ["fn first<'a>(s: &'a str) -> &'a str { s } // lifetime"])).toEqual(["fn first<'a>(s: &'a str) -> &'a str { s }"]);
+    });
+
+    test('only treats python triple quotes at the start of a line as docstrings', () => {
+        expect(stripAll('python', [
+            'def f():',
+            '    """Docstring',
+            '    more docs"""',
+            '    x = """not a docstring"""  # comment',
+            '    return x'
+        ])).toEqual(['def f():', '', '', '    x = """not a docstring"""', '    return x']);
+    });
+
+    test('only treats shell # after whitespace as a comment', () => {
+        expect(stripAll('shellscript', [
+            '# comment',
+            'echo $# ${#args[@]} # count',
+            'echo "# not a comment"'
+        ])).toEqual(['', 'echo $# ${#args[@]}', 'echo "# not a comment"']);
+    });
+});
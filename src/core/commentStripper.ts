@@ -0,0 +1,137 @@
+import * as path from 'path';
+
+interface CommentSyntax {
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    quotes: string[];
+    // Python docstrings: a triple quote only opens a comment when nothing precedes it on the line
+    blocksAtLineStartOnly?: boolean;
+    // Shell: '#' inside a word ($#, ${#var}) is not a comment
+    lineCommentAfterSpaceOnly?: boolean;
+}
+
+const C_FAMILY: CommentSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', '\'']
+};
+
+const JAVASCRIPT: CommentSyntax = { ...C_FAMILY, quotes: ['"', '\'', '`'] };
+
+const SYNTAX_BY_LANGUAGE: { [languageId: string]: CommentSyntax } = {
+    typescript: JAVASCRIPT,
+    typescriptreact: JAVASCRIPT,
+    javascript: JAVASCRIPT,
+    javascriptreact: JAVASCRIPT,
+    go: JAVASCRIPT,
+    java: C_FAMILY,
+    c: C_FAMILY,
+    cpp: C_FAMILY,
+    csharp: C_FAMILY,
+    'objective-c': C_FAMILY,
+    'objective-cpp': C_FAMILY,
+    kotlin: C_FAMILY,
+    scala: C_FAMILY,
+    swift: C_FAMILY,
+    dart: C_FAMILY,
+    // Lifetimes ('a) would read as unterminated character literals
+    rust: { ...C_FAMILY, quotes: ['"'] },
+    python: {
+        lineComments: ['#'],
+        blockComments: [['"""', '"""'], ['\'\'\'', '\'\'\'']],
+        quotes: ['"', '\''],
+        blocksAtLineStartOnly: true
+    },
+    shellscript: {
+        lineComments: ['#'],
+        blockComments: [],
+        quotes: ['"', '\''],
+        lineCommentAfterSpaceOnly: true
+    }
+};
+
+// For callers without an editor document, e.g. the CLI and folder analysis
+const LANGUAGE_BY_EXTENSION: { [extension: string]: string } = {
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'typescriptreact',
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'javascriptreact',
+    '.py': 'python', '.pyi': 'python',
+    '.go': 'go',
+    '.java': 'java',
+    '.c': 'c', '.h': 'c',
+    '.cc': 'cpp', '.cpp': 'cpp', '.cxx': 'cpp', '.hh': 'cpp', '.hpp': 'cpp', '.hxx': 'cpp',
+    '.cs': 'csharp',
+    '.m': 'objective-c', '.mm': 'objective-cpp',
+    '.kt': 'kotlin', '.kts': 'kotlin',
+    '.scala': 'scala',
+    '.swift': 'swift',
+    '.dart': 'dart',
+    '.rs': 'rust',
+    '.sh': 'shellscript', '.bash': 'shellscript', '.zsh': 'shellscript'
+};
+
+export function languageForPath(filePath: string): string | undefined {
+    return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+// Removes comment text line by line, carrying block comments over to the following lines.
+// A heuristic scanner rather than a parser: strings only span a single line.
+export class CommentStripper {
+    private blockEnd: string | undefined;
+
+    private constructor(private syntax: CommentSyntax) {}
+
+    static forLanguage(languageId: string | undefined): CommentStripper | undefined {
+        const syntax = languageId ? SYNTAX_BY_LANGUAGE[languageId] : undefined;
+        return syntax ? new CommentStripper(syntax) : undefined;
+    }
+
+    // Lines must be passed in document order
+    strip(line: string): string {
+        let code = '';
+        let i = 0;
+
+        while (i < line.length) {
+            if (this.blockEnd) {
+                const end = line.indexOf(this.blockEnd, i);
+                if (end === -1) {
+                    return code;
+                }
+                i = end + this.blockEnd.length;
+                this.blockEnd = undefined;
+                continue;
+            }
+
+            const block = this.syntax.blockComments.find(([open]) => line.startsWith(open, i));
+            if (block && (!this.syntax.blocksAtLineStartOnly || code.trim() === '')) {
+                this.blockEnd = block[1];
+                i += block[0].length;
+                continue;
+            }
+
+            const lineComment = this.syntax.lineComments.some(marker => line.startsWith(marker, i));
+            if (lineComment && (!this.syntax.lineCommentAfterSpaceOnly || i === 0 || /\s/.test(line[i - 1]))) {
+                return code;
+            }
+
+            if (this.syntax.quotes.includes(line[i])) {
+                const end = this.findClosingQuote(line, i);
+                code += line.substring(i, end);
+                i = end;
+                continue;
+            }
+
+            code += line[i];
+            i++;
+        }
+        return code;
+    }
+
+    private findClosingQuote(line: string, start: number): number {
+        const quote = line[start];
+        let i = start + 1;
+        while (i < line.length && line[i] !== quote) {
+            i += line[i] === '\\' ? 2 : 1;
+        }
+        return Math.min(line.length, i + 1);
+    }
+}
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlameOptions, GitRunner, appliesIgnoreRevs } from './gitRunner';
+import { BlameLineData, BlameParser } from './blameParser';
+import { ContributorMetrics, MetricsCalculator } from './metrics';
+import { GlobMatcher } from './globMatcher';
+import { languageForPath } from './commentStripper';
+
+export interface FolderAnalysisOptions {
+    maxFileSizeKB: number;
+    // Asked once per repository the files belong to: submodules have their own ignore-revs and commits
+    getBlameOptions?: (repoRoot: string) => Promise<BlameOptions>;
+    // Moved or copied lines of one file's blame; costs a second blame per file when move detection is on
+    countMovedLines?: (filePath: string, blameOptions: BlameOptions, blameData: BlameLineData[]) => Promise<number>;
+    // Globs matched against repository-relative paths
+    excludeFiles?: string[];
+    onProgress?: (processed: number, total: number, filePath: string) => void;
+    isCancelled?: () => boolean;
+}
+
+export interface FolderOwnership {
+    rootPath: string;
+    analyzedFiles: number;
+    skippedFiles: number;
+    excludedFiles: number;
+    excludedLines: number;
+    movedLines: number;
+    // Whether blame skipped any commits through ignore-revs
+    ignoreRevsApplied: boolean;
+    cancelled: boolean;
+    // Keyed by path relative to rootPath ('' is the root itself), rolled up recursively
+    directories: Map<string, ContributorMetrics[]>;
+    // Keyed by path relative to rootPath, '/'-separated
+    files: Map<string, ContributorMetrics[]>;
+    fileCounts: Map<string, number>;
+}
+
+export class FolderAnalyzer {
+    constructor(
+        private gitRunner: GitRunner,
+        private blameParser: BlameParser,
+        private metricsCalculator: MetricsCalculator
+    ) {}
+
+    async analyze(rootPath: string, options: FolderAnalysisOptions): Promise<FolderOwnership> {
+        const files = await this.gitRunner.listTrackedFiles(rootPath);
+        const perDirectory = new Map<string, ContributorMetrics[][]>();
+        const fileCounts = new Map<string, number>();
+        const fileMetrics = new Map<string, ContributorMetrics[]>();
+
+        let analyzedFiles = 0;
+        let skippedFiles = 0;
+        let excludedFiles = 0;
+        let excludedLines = 0;
+        let movedLines = 0;
+        let ignoreRevsApplied = false;
+        let cancelled = false;
+        const blameOptionsByRoot = new Map<string, Promise<BlameOptions>>();
+        const excludeMatcher = new GlobMatcher(options.excludeFiles);
+
+        for (let i = 0; i < files.length; i++) {
+            if (options.isCancelled && options.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
+            const filePath = files[i];
+            if (options.onProgress) {
+                options.onProgress(i, files.length, filePath);
+            }
+
+            if (!excludeMatcher.isEmpty() && excludeMatcher.matches((await this.gitRunner.locate(filePath)).relativePath)) {
+                excludedFiles++;
+                continue;
+            }
+
+            const fileContent = await this.readTextFile(filePath, options.maxFileSizeKB);
+            if (fileContent === undefined) {
+                skippedFiles++;
+                continue;
+            }
+
+            try {
+                const repoRoot = await this.gitRunner.getRepositoryRoot(filePath);
+                let pendingOptions = blameOptionsByRoot.get(repoRoot);
+                if (!pendingOptions) {
+                    pendingOptions = options.getBlameOptions ? options.getBlameOptions(repoRoot) : Promise.resolve({});
+                    blameOptionsByRoot.set(repoRoot, pendingOptions);
+                }
+                const blameOptions = await pendingOptions;
+                ignoreRevsApplied = ignoreRevsApplied || appliesIgnoreRevs(blameOptions);
+
+                const blameData = await this.blameParser.getBlameData(filePath, fileContent, this.gitRunner, blameOptions);
+                const metrics = this.metricsCalculator.calculateContributions(blameData, languageForPath(filePath));
+                excludedLines += this.metricsCalculator.countExcludedLines(blameData);
+                if (options.countMovedLines) {
+                    movedLines += await options.countMovedLines(filePath, blameOptions, blameData);
+                }
+                fileMetrics.set(path.relative(rootPath, filePath).split(path.sep).join('/'), metrics);
+
+                for (const directory of this.getAncestors(rootPath, filePath)) {
+                    const entries = perDirectory.get(directory) || [];
+                    entries.push(metrics);
+                    perDirectory.set(directory, entries);
+                    fileCounts.set(directory, (fileCounts.get(directory) || 0) + 1);
+                }
+                analyzedFiles++;
+            } catch (error) {
+                console.error(`Error analyzing ${filePath}:`, error);
+                skippedFiles++;
+            }
+        }
+
+        const directories = new Map<string, ContributorMetrics[]>();
+        for (const [directory, metricsList] of perDirectory.entries()) {
+            directories.set(directory, this.metricsCalculator.combineContributions(metricsList));
+        }
+
+        return {
+            rootPath,
+            analyzedFiles,
+            skippedFiles,
+            excludedFiles,
+            excludedLines,
+            movedLines,
+            ignoreRevsApplied,
+            cancelled,
+            directories,
+            files: fileMetrics,
+            fileCounts
+        };
+    }
+
+    // Returns undefined for files that are missing, too large or binary
+    private async readTextFile(filePath: string, maxFileSizeKB: number): Promise<string | undefined> {
+        try {
+            const stats = await fs.promises.stat(filePath);
+            if (!stats.isFile() || stats.size / 1024 > maxFileSizeKB) {
+                return undefined;
+            }
+
+            const buffer = await fs.promises.readFile(filePath);
+            if (this.isBinary(buffer)) {
+                return undefined;
+            }
+            return buffer.toString('utf8');
+        } catch {
+            // Deleted in the working tree, or a submodule entry
+            return undefined;
+        }
+    }
+
+    private isBinary(buffer: Buffer): boolean {
+        // Same heuristic as git: a NUL byte in the first 8000 bytes
+        return buffer.subarray(0, 8000).includes(0);
+    }
+
+    private getAncestors(rootPath: string, filePath: string): string[] {
+        const relativeDir = path.relative(rootPath, path.dirname(filePath));
+        const ancestors = [''];
+        if (!relativeDir) {
+            return ancestors;
+        }
+
+        const segments = relativeDir.split(path.sep);
+        for (let i = 1; i <= segments.length; i++) {
+            ancestors.push(segments.slice(0, i).join('/'));
+        }
+        return ancestors;
+    }
+}
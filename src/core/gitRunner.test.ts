@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { appliesIgnoreRevs, parseChangedLines } from './gitRunner';
+
+describe('parseChangedLines', () => {
+    test('collects the pre-change ranges of modified and deleted lines', () => {
+        const diff = [
+            'diff --git a/src/app.ts b/src/app.ts',
+            'index 1111111..2222222 100644',
+            '--- a/src/app.ts',
+            '+++ b/src/app.ts',
+            '@@ -3 +3 @@ export function a() {',
+            '-    return 1;',
+            '+    return 2;',
+            '@@ -10,4 +10,0 @@',
+            '--- deleted line that looks like a header',
+            '-b',
+            '-c',
+            '-d',
+            '@@ -20,0 +17,2 @@',
+            '+added',
+            '+added'
+        ].join('\n');
+
+        expect(parseChangedLines(diff, 'HEAD')).toEqual([
+            { path: 'src/app.ts', ranges: [{ start: 3, end: 3 }, { start: 10, end: 13 }], revision: 'HEAD' }
+        ]);
+    });
+
+    test('uses the old path of renamed files and skips added and binary files', () => {
+        const diff = [
+            'diff --git a/old name.ts b/new name.ts',
+            'similarity index 90%',
+            'rename from old name.ts',
+            'rename to new name.ts',
+            '--- a/old name.ts',
+            '+++ b/new name.ts',
+            '@@ -1,2 +1,2 @@',
+            '-x',
+            '-y',
+            '+X',
+            '+Y',
+            'diff --git a/added.ts b/added.ts',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/added.ts',
+            '@@ -0,0 +1 @@',
+            '+new',
+            'diff --git a/image.png b/image.png',
+            'Binary files a/image.png and b/image.png differ',
+            'diff --git a/"tab\\there.ts" b/"tab\\there.ts"',
+            '--- "a/quoted.ts"',
+            '+++ "b/quoted.ts"',
+            '@@ -5,2 +5 @@',
+            '-p',
+            '-q',
+            '+pq'
+        ].join('\n');
+
+        expect(parseChangedLines(diff, 'abc123')).toEqual([
+            { path: 'old name.ts', ranges: [{ start: 1, end: 2 }], revision: 'abc123' },
+            { path: 'quoted.ts', ranges: [{ start: 5, end: 6 }], revision: 'abc123' }
+        ]);
+    });
+
+    test('returns nothing for an empty diff', () => {
+        expect(parseChangedLines('', 'HEAD')).toEqual([]);
+    });
+});
+
+describe('appliesIgnoreRevs', () => {
+    test('is true with an ignore-revs file or ignored revisions', () => {
+        expect(appliesIgnoreRevs({})).toBe(false);
+        expect(appliesIgnoreRevs({ ignoreRevisions: [] })).toBe(false);
+        expect(appliesIgnoreRevs({ ignoreRevsFile: '/repo/.git-blame-ignore-revs' })).toBe(true);
+        expect(appliesIgnoreRevs({ ignoreRevisions: ['abc123'] })).toBe(true);
+    });
+});
@@ -0,0 +1,623 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import * as fs from 'fs';
+import { GitScheduler } from './gitScheduler';
+
+const execFileAsync = promisify(execFile);
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+export interface FileRevision {
+    commit: string;
+    // Author time in unix seconds
+    timestamp: number;
+    author: string;
+    summary: string;
+    // Path of the file at that commit, relative to the repository root
+    path: string;
+}
+
+export type MoveDetection = 'off' | 'withinFile' | 'crossFile' | 'crossFileAnyCommit';
+
+export interface BlameOptions {
+    ignoreRevsFile?: string;
+    ignoreRevisions?: string[];
+    lineRanges?: LineRange[];
+    detectMoves?: MoveDetection;
+    // Read Co-authored-by trailers of the blamed commits
+    coAuthors?: boolean;
+    // Aborting kills the blame and the lookups around it
+    signal?: AbortSignal;
+}
+
+// Whether blame with these options skips any commits
+export function appliesIgnoreRevs(options: BlameOptions): boolean {
+    return !!options.ignoreRevsFile || (options.ignoreRevisions || []).length > 0;
+}
+
+export interface GitRunnerOptions {
+    timeoutMs: number;
+    maxConcurrent: number;
+}
+
+export const DEFAULT_GIT_RUNNER_OPTIONS: GitRunnerOptions = {
+    timeoutMs: 5000,
+    maxConcurrent: 4
+};
+
+// Which pending changes to look at: the index, everything uncommitted, or a branch's commits since it forked
+export type ChangeSource =
+    | { kind: 'staged' }
+    | { kind: 'workingTree' }
+    | { kind: 'branch'; base: string };
+
+export interface ChangedFile {
+    // Path before the change, relative to the repository root
+    path: string;
+    // Lines modified or deleted by the change, numbered as in `revision`
+    ranges: LineRange[];
+    revision: string;
+}
+
+// Pre-change line ranges per file from `git diff --unified=0 --src-prefix=a/` output
+export function parseChangedLines(diffOutput: string, revision: string): ChangedFile[] {
+    const files: ChangedFile[] = [];
+    let current: ChangedFile | undefined;
+    let inHeader = false;
+    for (const line of diffOutput.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            inHeader = true;
+            current = undefined;
+        } else if (inHeader && line.startsWith('--- ')) {
+            const oldPath = line.substring(4).replace(/^"(.*)"$/, '$1');
+            if (oldPath.startsWith('a/')) {
+                current = { path: oldPath.substring(2), ranges: [], revision };
+                files.push(current);
+            }
+        } else if (line.startsWith('@@ ')) {
+            inHeader = false;
+            const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+/);
+            const count = hunk ? (hunk[2] === undefined ? 1 : parseInt(hunk[2], 10)) : 0;
+            if (current && hunk && count > 0) {
+                const start = parseInt(hunk[1], 10);
+                current.ranges.push({ start, end: start + count - 1 });
+            }
+        }
+    }
+    return files.filter(file => file.ranges.length > 0);
+}
+
+export type RepositoryKind = 'workTree' | 'bare' | 'gitDir';
+
+export interface RepositoryInfo {
+    kind: RepositoryKind;
+    // Top of the working tree; the git directory itself for bare repositories
+    root: string;
+    // Working tree of the superproject when this repository is a submodule
+    superproject?: string;
+    // A linked worktree shares its object store with the main checkout
+    isWorktree: boolean;
+}
+
+export class GitRunner {
+    private timeout: number;
+    private scheduler: GitScheduler;
+    // Keyed by directory; a directory always belongs to the same repository
+    private repositories = new Map<string, Promise<RepositoryInfo | undefined>>();
+
+    constructor(options: GitRunnerOptions = DEFAULT_GIT_RUNNER_OPTIONS) {
+        this.timeout = options.timeoutMs;
+        this.scheduler = new GitScheduler(options.maxConcurrent);
+    }
+
+    setOptions(options: GitRunnerOptions): void {
+        this.timeout = options.timeoutMs;
+        this.scheduler.setMaxConcurrent(options.maxConcurrent);
+    }
+
+    // Nearest enclosing repository of a file or directory, so submodules and worktrees resolve to themselves
+    resolveRepository(fileOrDirPath: string): Promise<RepositoryInfo | undefined> {
+        const directory = this.getExistingDirectory(fileOrDirPath);
+        let pending = this.repositories.get(directory);
+        if (!pending) {
+            const lookup = this.findRepository(directory);
+            this.repositories.set(directory, lookup);
+            // Not a repository yet (or git failed): look again next time instead of remembering it
+            lookup.then(repository => {
+                if (!repository && this.repositories.get(directory) === lookup) {
+                    this.repositories.delete(directory);
+                }
+            });
+            pending = lookup;
+        }
+        return pending;
+    }
+
+    clearRepositoryCache(): void {
+        this.repositories.clear();
+    }
+
+    async isInGitRepository(filePath: string): Promise<boolean> {
+        const repository = await this.resolveRepository(filePath);
+        return !!repository && repository.kind === 'workTree';
+    }
+
+    async isFileIgnored(filePath: string, signal?: AbortSignal): Promise<boolean> {
+        try {
+            const { root, relativePath } = await this.locate(filePath);
+            await this.exec(['check-ignore', '--quiet', '--', relativePath], {
+                cwd: root,
+                signal
+            });
+            return true;
+        } catch {
+            // Exit code 1: not ignored
+            return false;
+        }
+    }
+
+    async isFileTracked(filePath: string, signal?: AbortSignal): Promise<boolean> {
+        try {
+            const { root, relativePath } = await this.locate(filePath);
+            
+            await this.exec(['ls-files', '--error-unmatch', '--', relativePath], {
+                cwd: root,
+                signal
+            });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async isFileModified(filePath: string, signal?: AbortSignal): Promise<boolean> {
+        try {
+            const { root, relativePath } = await this.locate(filePath);
+            
+            const { stdout } = await this.exec(['status', '--porcelain', '-z', '--', relativePath], {
+                cwd: root,
+                signal
+            });
+            
+            return stdout.trim().length > 0;
+        } catch {
+            return false;
+        }
+    }
+
+    async getBlame(filePath: string, tempFilePath?: string, options: BlameOptions = {}, revision?: string): Promise<string> {
+        // A historical path may live in a directory that no longer exists; locate() copes with that
+        const { root, relativePath } = await this.locate(filePath);
+        
+        const args = [
+            'blame',
+            '--line-porcelain',
+            '--encoding=UTF-8'
+        ];
+
+        if (tempFilePath) {
+            args.push('--contents', tempFilePath);
+        }
+
+        if (options.ignoreRevsFile) {
+            args.push('--ignore-revs-file', options.ignoreRevsFile);
+        }
+
+        for (const revision of options.ignoreRevisions || []) {
+            args.push('--ignore-rev', revision);
+        }
+
+        for (const range of options.lineRanges || []) {
+            args.push('-L', `${range.start},${range.end}`);
+        }
+
+        switch (options.detectMoves) {
+            case 'withinFile':
+                args.push('-M');
+                break;
+            case 'crossFile':
+                args.push('-C');
+                break;
+            case 'crossFileAnyCommit':
+                // Also looks at files that weren't touched by the same commit (slow)
+                args.push('-C', '-C');
+                break;
+        }
+
+        if (revision) {
+            args.push(revision);
+        }
+
+        args.push('--', relativePath);
+
+        try {
+            const { stdout } = await this.exec(args, {
+                cwd: root,
+                maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+                signal: options.signal
+            });
+            
+            return stdout;
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                throw new Error('Git not found in PATH');
+            }
+            if (options.signal && options.signal.aborted) {
+                throw new Error('Git blame cancelled');
+            }
+            if (error.signal === 'SIGTERM') {
+                throw new Error('Git blame timeout');
+            }
+            throw new Error(`Git blame failed: ${error.message}`);
+        }
+    }
+
+    async getFileHistory(filePath: string, maxCount: number = 1000): Promise<FileRevision[]> {
+        try {
+            const { root, relativePath } = await this.locate(filePath);
+            const { stdout } = await this.exec([
+                'log',
+                '--follow',
+                `--max-count=${maxCount}`,
+                '--format=%x1e%H%x1f%at%x1f%aN%x1f%s',
+                '--name-only',
+                '--',
+                relativePath
+            ], {
+                cwd: root,
+                maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+            });
+
+            const revisions: FileRevision[] = [];
+            for (const record of stdout.split('\x1e')) {
+                const [header, ...rest] = record.split('\n');
+                const [commit, timestamp, author, summary] = header.split('\x1f');
+                // --name-only lists the path as of that commit, relative to the root
+                const filePathAtCommit = rest.map(line => line.trim()).find(line => line.length > 0);
+                if (commit && filePathAtCommit) {
+                    revisions.push({
+                        commit,
+                        timestamp: parseInt(timestamp, 10) || 0,
+                        author: author || '',
+                        summary: summary || '',
+                        path: filePathAtCommit
+                    });
+                }
+            }
+            return revisions;
+        } catch (error: any) {
+            throw new Error(`Failed to read file history: ${error.message}`);
+        }
+    }
+
+    // Raw "Name <email>" values of each commit's Co-authored-by trailers; commits without any are left out
+    async getCoAuthors(filePath: string, commits: string[], signal?: AbortSignal): Promise<Map<string, string[]>> {
+        const coAuthors = new Map<string, string[]>();
+        const root = await this.getRepositoryRoot(filePath);
+
+        // Keep the command line short on files with a long history
+        for (let i = 0; i < commits.length; i += 200) {
+            try {
+                const { stdout } = await this.exec([
+                    'log',
+                    '--no-walk=unsorted',
+                    '--format=%H%x1f%(trailers:key=Co-authored-by,valueonly,unfold,separator=%x1d)%x1e',
+                    ...commits.slice(i, i + 200)
+                ], {
+                    cwd: root,
+                    maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+                    signal
+                });
+
+                for (const record of stdout.split('\x1e')) {
+                    const [commit, trailers] = record.trim().split('\x1f');
+                    const values = (trailers || '').split('\x1d').map(value => value.trim()).filter(value => value.length > 0);
+                    if (commit && values.length > 0) {
+                        coAuthors.set(commit, values);
+                    }
+                }
+            } catch (error: any) {
+                throw new Error(`Failed to read co-authors: ${error.message}`);
+            }
+        }
+
+        return coAuthors;
+    }
+
+    // "Name <email>" contacts as .mailmap rewrites them, keyed by the original; blame output
+    // already has it applied, trailers and config values don't
+    async checkMailmap(filePath: string, contacts: string[], signal?: AbortSignal): Promise<Map<string, string>> {
+        const mapped = new Map<string, string>();
+        const valid = contacts.filter(contact => /<[^>]*>/.test(contact) && !contact.startsWith('-'));
+        if (valid.length === 0) {
+            return mapped;
+        }
+        const root = await this.getRepositoryRoot(filePath);
+
+        for (let i = 0; i < valid.length; i += 200) {
+            const batch = valid.slice(i, i + 200);
+            try {
+                const { stdout } = await this.exec(['check-mailmap', ...batch], { cwd: root, signal });
+                stdout.split('\n').slice(0, batch.length).forEach((line, index) => mapped.set(batch[index], line.trim()));
+            } catch {
+                // Older git rejects "<email>" without a name and fails the whole batch: keep those as written
+            }
+        }
+        return mapped;
+    }
+
+    async getFileAtRevision(repoRoot: string, revision: string, repoRelativePath: string): Promise<string> {
+        try {
+            const { stdout } = await this.exec(['show', `${revision}:${repoRelativePath}`], {
+                cwd: repoRoot,
+                maxBuffer: 50 * 1024 * 1024 // 50MB buffer
+            });
+            return stdout;
+        } catch (error: any) {
+            throw new Error(`Failed to read ${repoRelativePath} at ${revision.substring(0, 7)}: ${error.message}`);
+        }
+    }
+
+    async listTrackedFiles(dirPath: string): Promise<string[]> {
+        try {
+            // Paths come back relative to cwd, so run from the folder itself; submodule files are
+            // listed too and resolve to their own repository when blamed
+            const { stdout } = await this.exec(['ls-files', '-z', '--recurse-submodules', '--', '.'], {
+                cwd: dirPath,
+                maxBuffer: 50 * 1024 * 1024 // 50MB buffer
+            });
+            return stdout
+                .split('\0')
+                .filter(relativePath => relativePath.length > 0)
+                .map(relativePath => path.join(dirPath, relativePath));
+        } catch (error: any) {
+            throw new Error(`Failed to list tracked files: ${error.message}`);
+        }
+    }
+
+    async getRepositoryRoot(filePath: string): Promise<string> {
+        const repository = await this.resolveRepository(filePath);
+        if (!repository || repository.kind !== 'workTree') {
+            throw new Error(`Failed to get repository root: ${filePath} is not in a Git working tree`);
+        }
+        return repository.root;
+    }
+
+    // Repository root plus the '/'-separated path git expects relative to it
+    async locate(filePath: string): Promise<{ root: string; relativePath: string }> {
+        const root = await this.getRepositoryRoot(filePath);
+
+        // Compare real paths: the editor may have opened the file through a symlink
+        const existing = this.getExistingDirectory(filePath);
+        const realPath = path.join(this.realPath(existing), path.relative(existing, filePath));
+        const relativePath = path.relative(root, realPath).split(path.sep).join('/');
+        return { root, relativePath: relativePath || '.' };
+    }
+
+    async getHeadBlob(filePath: string, signal?: AbortSignal): Promise<{ commit: string; blob: string } | undefined> {
+        try {
+            const { root, relativePath } = await this.locate(filePath);
+            const { stdout } = await this.exec(['rev-parse', 'HEAD', `HEAD:${relativePath}`], {
+                cwd: root,
+                signal
+            });
+            const [commit, blob] = stdout.trim().split('\n');
+            return commit && blob ? { commit, blob } : undefined;
+        } catch {
+            // No commits yet, or the file isn't in HEAD
+            return undefined;
+        }
+    }
+
+    // Author time of the newest commit reachable from HEAD by any of the given emails
+    async getLastAuthorTime(filePath: string, emails: string[]): Promise<number | undefined> {
+        if (emails.length === 0) {
+            return undefined;
+        }
+
+        try {
+            const root = await this.getRepositoryRoot(filePath);
+            const authorArgs = emails.map(email => `--author=<${email}>`);
+            const { stdout } = await this.exec(['log', '-1', '--format=%at', '--use-mailmap', '--fixed-strings', '--regexp-ignore-case', ...authorArgs, 'HEAD'], {
+                cwd: root
+            });
+            const timestamp = parseInt(stdout.trim(), 10);
+            return isNaN(timestamp) ? undefined : timestamp;
+        } catch (error: any) {
+            throw new Error(`Failed to get last commit by ${emails[0]}: ${error.message}`);
+        }
+    }
+
+    // Pre-change line ranges of every file the change modifies or deletes; added files have none
+    async getChangedLines(repoRoot: string, source: ChangeSource): Promise<ChangedFile[]> {
+        let revision = 'HEAD';
+        const args = ['-c', 'core.quotePath=off', 'diff', '--unified=0', '--no-color', '--no-ext-diff', '-M', '--src-prefix=a/', '--dst-prefix=b/'];
+        if (source.kind === 'staged') {
+            args.push('--cached', 'HEAD');
+        } else if (source.kind === 'workingTree') {
+            args.push('HEAD');
+        } else {
+            revision = await this.getMergeBase(repoRoot, source.base);
+            args.push(revision, 'HEAD');
+        }
+
+        try {
+            const { stdout } = await this.exec(args, {
+                cwd: repoRoot,
+                maxBuffer: 50 * 1024 * 1024 // 50MB buffer
+            });
+
+            return parseChangedLines(stdout, revision);
+        } catch (error: any) {
+            throw new Error(`Failed to read changes: ${error.message}`);
+        }
+    }
+
+    async getMergeBase(repoRoot: string, branch: string): Promise<string> {
+        try {
+            const { stdout } = await this.exec(['merge-base', 'HEAD', branch], { cwd: repoRoot });
+            return stdout.trim();
+        } catch (error: any) {
+            throw new Error(`No common ancestor with ${branch}: ${error.message}`);
+        }
+    }
+
+    // Local branches first, then remote-tracking ones
+    async listBranches(repoRoot: string): Promise<string[]> {
+        try {
+            const { stdout } = await this.exec(['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes'], { cwd: repoRoot });
+            return stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0 && !line.endsWith('/HEAD'));
+        } catch (error: any) {
+            throw new Error(`Failed to list branches: ${error.message}`);
+        }
+    }
+
+    // The configured user as their commits show up in blame, i.e. with .mailmap applied;
+    // undefined when user.email is not configured
+    async getUserIdentity(repoRoot: string): Promise<{ name: string; email: string } | undefined> {
+        const name = await this.getConfigValue(repoRoot, 'user.name');
+        const email = await this.getConfigValue(repoRoot, 'user.email');
+        if (!email) {
+            return undefined;
+        }
+
+        const contact = name ? `${name} <${email}>` : `<${email}>`;
+        const mapped = (await this.checkMailmap(repoRoot, [contact])).get(contact);
+        const match = mapped ? mapped.match(/^(.*?)\s*<([^>]*)>$/) : undefined;
+        return match ? { name: match[1], email: match[2] } : { name, email };
+    }
+
+    async getCurrentCommitHash(filePath: string): Promise<string> {
+        try {
+            const root = await this.getRepositoryRoot(filePath);
+            const { stdout } = await this.exec(['rev-parse', 'HEAD'], {
+                cwd: root
+            });
+            return stdout.trim();
+        } catch (error: any) {
+            throw new Error(`Failed to get current commit: ${error.message}`);
+        }
+    }
+
+    async getIgnoreRevsFile(filePath: string): Promise<string | undefined> {
+        const repoRoot = await this.getRepositoryRoot(filePath);
+
+        // An explicitly configured blame.ignoreRevsFile wins over the conventional file
+        try {
+            const { stdout } = await this.exec(['config', '--get', 'blame.ignoreRevsFile'], {
+                cwd: repoRoot
+            });
+            const configured = stdout.trim();
+            if (configured) {
+                const resolved = path.resolve(repoRoot, configured);
+                return fs.existsSync(resolved) ? resolved : undefined;
+            }
+        } catch {
+            // Not configured
+        }
+
+        const conventional = path.join(repoRoot, '.git-blame-ignore-revs');
+        return fs.existsSync(conventional) ? conventional : undefined;
+    }
+
+    async verifyRevisions(filePath: string, revisions: string[]): Promise<string[]> {
+        const root = await this.getRepositoryRoot(filePath);
+        const verified: string[] = [];
+
+        // git blame aborts on a single unknown --ignore-rev, so drop those up front
+        for (const revision of revisions) {
+            const trimmed = revision.trim();
+            if (!trimmed || trimmed.startsWith('-')) {
+                continue;
+            }
+            try {
+                const { stdout } = await this.exec(['rev-parse', '--verify', '--quiet', `${trimmed}^{commit}`], {
+                    cwd: root
+                });
+                verified.push(stdout.trim());
+            } catch {
+                // Unknown revision in this repository
+            }
+        }
+
+        return verified;
+    }
+
+    private async getConfigValue(repoRoot: string, key: string): Promise<string> {
+        try {
+            const { stdout } = await this.exec(['config', '--get', key], { cwd: repoRoot });
+            return stdout.trim();
+        } catch {
+            // Not configured
+            return '';
+        }
+    }
+
+    // Every git process goes through the scheduler, so a burst of requests can't pile up processes
+    private exec(args: string[], options: { cwd: string; maxBuffer?: number; signal?: AbortSignal }): Promise<{ stdout: string }> {
+        return this.scheduler.run(() => execFileAsync('git', args, {
+            cwd: options.cwd,
+            timeout: this.timeout,
+            maxBuffer: options.maxBuffer,
+            signal: options.signal
+        }), options.signal);
+    }
+
+    private async findRepository(directory: string): Promise<RepositoryInfo | undefined> {
+        try {
+            // --show-toplevel fails outside a working tree, so ask for the layout first
+            const { stdout } = await this.exec(['rev-parse', '--is-bare-repository', '--is-inside-work-tree', '--absolute-git-dir', '--git-common-dir'], {
+                cwd: directory
+            });
+            const [isBare, isInsideWorkTree, gitDir, commonDir] = stdout.trim().split('\n');
+            if (isBare === 'true') {
+                return { kind: 'bare', root: gitDir, isWorktree: false };
+            }
+            if (isInsideWorkTree !== 'true') {
+                return { kind: 'gitDir', root: gitDir, isWorktree: false };
+            }
+
+            const { stdout: layout } = await this.exec(['rev-parse', '--show-toplevel', '--show-superproject-working-tree'], {
+                cwd: directory
+            });
+            const [root, superproject] = layout.trim().split('\n');
+            return {
+                kind: 'workTree',
+                root: path.resolve(root),
+                superproject: superproject ? path.resolve(superproject) : undefined,
+                isWorktree: path.resolve(this.realPath(directory), commonDir) !== path.resolve(gitDir)
+            };
+        } catch {
+            // Not a repository (or git is missing)
+            return undefined;
+        }
+    }
+
+    private getExistingDirectory(fileOrDirPath: string): string {
+        let directory = fileOrDirPath;
+        while (!this.isDirectory(directory) && path.dirname(directory) !== directory) {
+            directory = path.dirname(directory);
+        }
+        return directory;
+    }
+
+    private isDirectory(directory: string): boolean {
+        try {
+            return fs.statSync(directory).isDirectory();
+        } catch {
+            return false;
+        }
+    }
+
+    private realPath(directory: string): string {
+        try {
+            return fs.realpathSync.native(directory);
+        } catch {
+            return directory;
+        }
+    }
+}
@@ -0,0 +1,65 @@
+interface QueuedTask {
+    start: () => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+// Caps how many git processes run at once; queued work whose signal aborts never starts
+export class GitScheduler {
+    private running = 0;
+    private queue: QueuedTask[] = [];
+
+    constructor(private maxConcurrent: number = 4) {}
+
+    setMaxConcurrent(maxConcurrent: number): void {
+        this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent));
+        this.drain();
+    }
+
+    getPendingCount(): number {
+        return this.queue.length;
+    }
+
+    run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (signal && signal.aborted) {
+            return Promise.reject(new Error('Git command cancelled'));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const queued: QueuedTask = {
+                signal,
+                start: () => {
+                    if (queued.onAbort && signal) {
+                        signal.removeEventListener('abort', queued.onAbort);
+                    }
+                    this.running++;
+                    task().then(resolve, reject).finally(() => {
+                        this.running--;
+                        this.drain();
+                    });
+                }
+            };
+
+            if (signal) {
+                queued.onAbort = () => {
+                    const index = this.queue.indexOf(queued);
+                    if (index !== -1) {
+                        this.queue.splice(index, 1);
+                        reject(new Error('Git command cancelled'));
+                    }
+                };
+                signal.addEventListener('abort', queued.onAbort, { once: true });
+            }
+
+            this.queue.push(queued);
+            this.drain();
+        });
+    }
+
+    private drain(): void {
+        while (this.running < this.maxConcurrent && this.queue.length > 0) {
+            const next = this.queue.shift()!;
+            next.start();
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { GlobMatcher } from './globMatcher';
+
+describe('GlobMatcher', () => {
+    test('matches everything inside a directory pattern with a trailing slash', () => {
+        const matcher = new GlobMatcher(['vendor/']);
+
+        expect(matcher.matches('vendor/lib.js')).toBe(true);
+        expect(matcher.matches('vendor/deep/nested/lib.js')).toBe(true);
+        expect(matcher.matches('packages/app/vendor/lib.js')).toBe(true);
+        expect(matcher.matches('vendor')).toBe(false);
+        expect(matcher.matches('vendors/lib.js')).toBe(false);
+    });
+
+    test('anchors a directory pattern with another slash to the root', () => {
+        const matcher = new GlobMatcher(['/build/', 'docs/generated/']);
+
+        expect(matcher.matches('build/out.js')).toBe(true);
+        expect(matcher.matches('src/build/out.js')).toBe(false);
+        expect(matcher.matches('docs/generated/api.md')).toBe(true);
+        expect(matcher.matches('site/docs/generated/api.md')).toBe(false);
+    });
+
+    test('matches a pattern without a slash at any depth, and everything below a matching directory', () => {
+        const matcher = new GlobMatcher(['*.min.js', 'node_modules']);
+
+        expect(matcher.matches('app.min.js')).toBe(true);
+        expect(matcher.matches('public/js/app.min.js')).toBe(true);
+        expect(matcher.matches('app.js')).toBe(false);
+        expect(matcher.matches('packages/a/node_modules/lib/index.js')).toBe(true);
+    });
+
+    test('supports **, ? and {a,b}', () => {
+        const matcher = new GlobMatcher(['src/**/generated/*.ts', 'docs/?.md', 'assets/*.{png,svg}']);
+
+        expect(matcher.matches('src/generated/api.ts')).toBe(true);
+        expect(matcher.matches('src/a/b/generated/api.ts')).toBe(true);
+        expect(matcher.matches('lib/generated/api.ts')).toBe(false);
+        expect(matcher.matches('docs/a.md')).toBe(true);
+        expect(matcher.matches('docs/ab.md')).toBe(false);
+        expect(matcher.matches('assets/logo.svg')).toBe(true);
+        expect(matcher.matches('assets/logo.gif')).toBe(false);
+    });
+
+    test('escapes regex characters and normalizes paths', () => {
+        const matcher = new GlobMatcher(['file(1).txt', '  ', '']);
+
+        expect(matcher.isEmpty()).toBe(false);
+        expect(matcher.matches('file(1).txt')).toBe(true);
+        expect(matcher.matches('file1.txt')).toBe(false);
+        expect(matcher.matches('.\\dir\\file(1).txt')).toBe(true);
+        expect(new GlobMatcher(['', '   ']).isEmpty()).toBe(true);
+    });
+
+    test('leaves out subdirectories for trailing wildcards when wildcards must not match directories', () => {
+        const gitignore = new GlobMatcher(['docs/*']);
+        const codeOwners = new GlobMatcher(['docs/*'], false);
+
+        expect(gitignore.matches('docs/guide/intro.md')).toBe(true);
+        expect(codeOwners.matches('docs/intro.md')).toBe(true);
+        expect(codeOwners.matches('docs/guide/intro.md')).toBe(false);
+        expect(new GlobMatcher(['/'], false).matches('any/file.ts')).toBe(true);
+    });
+});
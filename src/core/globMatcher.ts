@@ -0,0 +1,76 @@
+// Matches '/'-separated relative paths against gitignore-like globs: '*', '?', '**', '{a,b}'.
+// A pattern without a slash matches the file name at any depth; a trailing slash ('vendor/')
+// names a directory, at any depth unless it has another slash, and matches everything inside it.
+export class GlobMatcher {
+    private regexes: RegExp[];
+
+    // gitignore lets 'docs/*' match directories and so everything below them. CODEOWNERS
+    // doesn't: there a wildcard in the last segment only matches files directly inside 'docs'.
+    constructor(patterns: string[] = [], private wildcardsMatchDirectories: boolean = true) {
+        this.regexes = patterns
+            .map(pattern => pattern.trim())
+            .filter(pattern => pattern.length > 0)
+            .map(pattern => this.compile(pattern));
+    }
+
+    isEmpty(): boolean {
+        return this.regexes.length === 0;
+    }
+
+    matches(relativePath: string): boolean {
+        const normalized = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+        return this.regexes.some(regex => regex.test(normalized));
+    }
+
+    private compile(pattern: string): RegExp {
+        const isDirectory = pattern.endsWith('/');
+        let glob = pattern.replace(/^\//, '').replace(/\/+$/, '');
+        if (!glob) {
+            // A lone '/' is the whole tree
+            return /^/;
+        }
+        if (!pattern.replace(/\/+$/, '').includes('/')) {
+            glob = `**/${glob}`;
+        }
+
+        let source = '';
+        let inGroup = false;
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+            if (char === '*' && glob[i + 1] === '*') {
+                // '**/' spans zero or more directories, a trailing '**' everything below
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '{') {
+                inGroup = true;
+                source += '(?:';
+            } else if (char === '}' && inGroup) {
+                inGroup = false;
+                source += ')';
+            } else if (char === ',' && inGroup) {
+                source += '|';
+            } else {
+                source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+            }
+        }
+
+        // A pattern that matches a directory also covers everything inside it
+        if (isDirectory) {
+            return new RegExp(`^${source}/.*$`);
+        }
+        const lastSegment = glob.substring(glob.lastIndexOf('/') + 1);
+        if (!this.wildcardsMatchDirectories && /[*?{]/.test(lastSegment)) {
+            return new RegExp(`^${source}$`);
+        }
+        return new RegExp(`^${source}(?:/.*)?$`);
+    }
+}
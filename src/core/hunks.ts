@@ -0,0 +1,22 @@
+import { BlameLineData } from './blameParser';
+import { LineRange } from './gitRunner';
+import { identityKey } from './identity';
+
+// Contiguous runs of lines owned by one identity, in document order (1-based, inclusive)
+export function findAuthorHunks(blameData: BlameLineData[], identity: string): LineRange[] {
+    const lineNumbers = blameData
+        .filter(line => identityKey(line.author, line.email) === identity)
+        .map(line => line.lineNumber)
+        .sort((a, b) => a - b);
+
+    const hunks: LineRange[] = [];
+    for (const lineNumber of lineNumbers) {
+        const last = hunks[hunks.length - 1];
+        if (last && lineNumber <= last.end + 1) {
+            last.end = Math.max(last.end, lineNumber);
+        } else {
+            hunks.push({ start: lineNumber, end: lineNumber });
+        }
+    }
+    return hunks;
+}
@@ -0,0 +1,65 @@
+export interface AuthorAlias {
+    name: string;
+    emails: string[];
+}
+
+export interface AuthorIdentity {
+    name: string;
+    email: string;
+}
+
+export const UNCOMMITTED_AUTHOR = 'not commited yet';
+
+export class IdentityResolver {
+    private aliasesByEmail = new Map<string, AuthorAlias>();
+
+    constructor(aliases: AuthorAlias[] = []) {
+        for (const alias of aliases) {
+            if (!alias || !alias.name || !Array.isArray(alias.emails) || alias.emails.length === 0) {
+                continue;
+            }
+            for (const email of alias.emails) {
+                this.aliasesByEmail.set(this.normalizeEmail(email), alias);
+            }
+        }
+    }
+
+    // Git already applies .mailmap (and mailmap.file / mailmap.blob) to the
+    // porcelain author fields, so only the configured alias groups are left here.
+    resolve(name: string, email: string): AuthorIdentity {
+        const normalizedName = name.trim();
+        const normalizedEmail = this.normalizeEmail(email);
+
+        const lower = normalizedName.toLowerCase();
+        if (lower.includes('not committed yet') || lower.includes('external file') ||
+            normalizedEmail === 'not.committed.yet') {
+            return { name: UNCOMMITTED_AUTHOR, email: '' };
+        }
+
+        const alias = this.aliasesByEmail.get(normalizedEmail);
+        if (alias) {
+            // All emails of a group collapse onto the first one
+            return { name: alias.name.trim(), email: this.normalizeEmail(alias.emails[0]) };
+        }
+
+        return {
+            name: normalizedName || normalizedEmail || 'Unknown',
+            email: normalizedEmail
+        };
+    }
+
+    // Every email that resolves to the same identity as the given one
+    getEmails(email: string): string[] {
+        const normalizedEmail = this.normalizeEmail(email);
+        const alias = this.aliasesByEmail.get(normalizedEmail);
+        return alias ? alias.emails.map(e => this.normalizeEmail(e)) : [normalizedEmail];
+    }
+
+    private normalizeEmail(email: string): string {
+        return email.trim().replace(/^<|>$/g, '').toLowerCase();
+    }
+}
+
+export function identityKey(author: string, email: string): string {
+    return email || author;
+}
@@ -0,0 +1,20 @@
+export * from './gitRunner';
+export * from './blameParser';
+export * from './identity';
+export * from './metrics';
+export * from './commentStripper';
+export * from './cache';
+export * from './analyzer';
+export * from './folderAnalyzer';
+export * from './reportFormatter';
+export * from './persistentCache';
+export * from './lineTracker';
+export * from './ownershipHistory';
+export * from './hunks';
+export * from './knowledgeRisk';
+export * from './globMatcher';
+export * from './gitScheduler';
+export * from './ownershipExport';
+export * from './teams';
+export * from './codeOwners';
+export * from './reviewers';
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { GitRunner } from './gitRunner';
+import { IdentityResolver, UNCOMMITTED_AUTHOR } from './identity';
+import { ContributorMetrics, MetricsCalculator } from './metrics';
+import { FolderOwnership } from './folderAnalyzer';
+
+export interface RiskOptions {
+    // Share (0-1) of the counted total the bus factor authors must own together
+    busFactorThreshold: number;
+    // An owner without commits for this long counts as gone; 0 disables the check
+    staleOwnerMonths: number;
+}
+
+export interface KnowledgeRisk {
+    busFactor: number;
+    dominantOwner?: ContributorMetrics;
+    // Author time of the dominant owner's newest commit anywhere in the repository
+    ownerLastActive?: number;
+    ownerInactive: boolean;
+    atRisk: boolean;
+}
+
+export interface PathRisk {
+    // Relative to the analyzed folder, '/'-separated; '' is the folder itself
+    path: string;
+    isDirectory: boolean;
+    lines: number;
+    risk: KnowledgeRisk;
+}
+
+const SECONDS_PER_MONTH = 30.44 * 24 * 60 * 60;
+// Repository-wide activity barely moves during a session
+const ACTIVITY_TTL_MS = 60 * 60 * 1000;
+
+export function monthsSince(timestamp: number): number {
+    return Math.floor(Math.max(0, Date.now() / 1000 - timestamp) / SECONDS_PER_MONTH);
+}
+
+export class KnowledgeRiskAnalyzer {
+    private lastActivity = new Map<string, { timestamp: number | undefined; fetchedAt: number }>();
+
+    constructor(
+        private gitRunner: GitRunner,
+        private metricsCalculator: MetricsCalculator,
+        private identityResolver: IdentityResolver = new IdentityResolver()
+    ) {}
+
+    setIdentityResolver(identityResolver: IdentityResolver): void {
+        this.identityResolver = identityResolver;
+        this.lastActivity.clear();
+    }
+
+    clear(): void {
+        this.lastActivity.clear();
+    }
+
+    // filePath only locates the repository; any file or directory inside it works
+    async assess(filePath: string, contributors: ContributorMetrics[], options: RiskOptions): Promise<KnowledgeRisk> {
+        const busFactor = this.metricsCalculator.calculateBusFactor(contributors, options.busFactorThreshold);
+        const dominantOwner = contributors[0];
+        // Local edits nobody committed yet aren't anyone's knowledge to lose
+        const committedOwner = !!dominantOwner && dominantOwner.author !== UNCOMMITTED_AUTHOR;
+
+        let ownerLastActive: number | undefined;
+        let ownerInactive = false;
+        if (committedOwner && dominantOwner.email && options.staleOwnerMonths > 0) {
+            ownerLastActive = await this.getLastActivity(filePath, dominantOwner.email);
+            const cutoff = Date.now() / 1000 - options.staleOwnerMonths * SECONDS_PER_MONTH;
+            ownerInactive = ownerLastActive !== undefined && ownerLastActive < cutoff;
+        }
+
+        return {
+            busFactor,
+            dominantOwner,
+            ownerLastActive,
+            ownerInactive,
+            atRisk: (committedOwner && busFactor === 1) || ownerInactive
+        };
+    }
+
+    // Every at-risk file and directory of a folder analysis, riskiest first
+    async rankPaths(ownership: FolderOwnership, options: RiskOptions): Promise<PathRisk[]> {
+        const entries: Array<{ path: string; isDirectory: boolean; contributors: ContributorMetrics[] }> = [
+            ...Array.from(ownership.directories.entries()).map(([directory, contributors]) => ({ path: directory, isDirectory: true, contributors })),
+            ...Array.from(ownership.files.entries()).map(([file, contributors]) => ({ path: file, isDirectory: false, contributors }))
+        ];
+
+        const ranked: PathRisk[] = [];
+        for (const entry of entries) {
+            // Each path's own repository: a submodule has its own history and .mailmap
+            const risk = await this.assess(path.join(ownership.rootPath, ...entry.path.split('/')), entry.contributors, options);
+            if (risk.atRisk) {
+                ranked.push({
+                    path: entry.path,
+                    isDirectory: entry.isDirectory,
+                    lines: Math.round(entry.contributors.reduce((sum, c) => sum + c.lines, 0)),
+                    risk
+                });
+            }
+        }
+
+        // Stale single owners first, then by how much code is exposed
+        return ranked.sort((a, b) =>
+            Number(b.risk.ownerInactive) - Number(a.risk.ownerInactive) ||
+            a.risk.busFactor - b.risk.busFactor ||
+            b.lines - a.lines
+        );
+    }
+
+    private async getLastActivity(filePath: string, email: string): Promise<number | undefined> {
+        const repoRoot = await this.gitRunner.getRepositoryRoot(filePath);
+        const key = `${repoRoot}:${email}`;
+        const cached = this.lastActivity.get(key);
+        if (cached && Date.now() - cached.fetchedAt < ACTIVITY_TTL_MS) {
+            return cached.timestamp;
+        }
+
+        const timestamp = await this.gitRunner.getLastAuthorTime(filePath, this.identityResolver.getEmails(email));
+        this.lastActivity.set(key, { timestamp, fetchedAt: Date.now() });
+        return timestamp;
+    }
+}
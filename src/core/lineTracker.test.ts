@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { BlameLineData, UNCOMMITTED_HASH } from './blameParser';
+import { UNCOMMITTED_AUTHOR } from './identity';
+import { LineTracker } from './lineTracker';
+
+function line(lineNumber: number, author: string, content: string): BlameLineData {
+    return { author, email: `${author.toLowerCase()}@example.com`, commit: 'c'.repeat(40), timestamp: 1700000000, lineNumber, content, summary: '', filename: 'file.ts' };
+}
+
+function tracker(): LineTracker {
+    return new LineTracker([
+        line(1, 'Alice', 'one'),
+        line(2, 'Alice', 'two'),
+        line(3, 'Bob', 'three')
+    ], 3, 1, { ignoreRevsApplied: false, movedLines: 0 });
+}
+
+function authors(lineTracker: LineTracker): Array<[number, string, string]> {
+    return lineTracker.getBlameData().map(lineData => [lineData.lineNumber, lineData.author, lineData.content]);
+}
+
+describe('LineTracker', () => {
+    test('attributes changed lines to nobody yet', () => {
+        const lineTracker = tracker();
+        lineTracker.applyEdit({ startLine: 1, endLine: 1, newLines: ['TWO'] });
+
+        expect(authors(lineTracker)).toEqual([[1, 'Alice', 'one'], [2, UNCOMMITTED_AUTHOR, 'TWO'], [3, 'Bob', 'three']]);
+        expect(lineTracker.getBlameData()[1].commit).toBe(UNCOMMITTED_HASH);
+    });
+
+    test('renumbers the lines after inserted and deleted lines', () => {
+        const lineTracker = tracker();
+        lineTracker.applyEdit({ startLine: 0, endLine: 0, newLines: ['one', 'inserted'] });
+
+        expect(authors(lineTracker)).toEqual([[1, 'Alice', 'one'], [2, UNCOMMITTED_AUTHOR, 'inserted'], [3, 'Alice', 'two'], [4, 'Bob', 'three']]);
+
+        lineTracker.applyEdit({ startLine: 1, endLine: 2, newLines: ['two'] });
+        expect(authors(lineTracker)).toEqual([[1, 'Alice', 'one'], [2, 'Alice', 'two'], [3, 'Bob', 'three']]);
+    });
+
+    test('keeps the author of the untouched part when a line is split or joined', () => {
+        const lineTracker = tracker();
+        lineTracker.applyEdit({ startLine: 2, endLine: 2, newLines: ['', 'three'] });
+        expect(authors(lineTracker)).toEqual([[1, 'Alice', 'one'], [2, 'Alice', 'two'], [3, UNCOMMITTED_AUTHOR, ''], [4, 'Bob', 'three']]);
+
+        lineTracker.applyEdit({ startLine: 2, endLine: 3, newLines: ['three'] });
+        expect(authors(lineTracker)).toEqual([[1, 'Alice', 'one'], [2, 'Alice', 'two'], [3, 'Bob', 'three']]);
+    });
+
+    test('skips lines blame never reported', () => {
+        const lineTracker = new LineTracker([line(2, 'Alice', 'two')], 3, 1, { ignoreRevsApplied: false, movedLines: 0 });
+
+        expect(authors(lineTracker)).toEqual([[2, 'Alice', 'two']]);
+    });
+});
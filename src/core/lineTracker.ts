@@ -0,0 +1,71 @@
+import { BlameLineData, UNCOMMITTED_HASH } from './blameParser';
+import { UNCOMMITTED_AUTHOR } from './identity';
+import { ReportAdjustments } from './metrics';
+
+export interface LineEdit {
+    // Replaced range of the document before the edit (0-based, inclusive)
+    startLine: number;
+    endLine: number;
+    // Full contents of the lines that now occupy that range
+    newLines: string[];
+}
+
+// Keeps blame attribution in step with unsaved edits, so the numbers can follow
+// typing without re-running git blame on every keystroke
+export class LineTracker {
+    // Index i holds line i + 1; gaps are lines blame never reported
+    private lines: Array<BlameLineData | undefined>;
+
+    constructor(blameData: BlameLineData[], lineCount: number, public version: number, public readonly adjustments: ReportAdjustments) {
+        this.lines = new Array(lineCount);
+        for (const lineData of blameData) {
+            if (lineData.lineNumber >= 1 && lineData.lineNumber <= lineCount) {
+                this.lines[lineData.lineNumber - 1] = lineData;
+            }
+        }
+    }
+
+    applyEdit(edit: LineEdit): void {
+        const removed = this.lines.slice(edit.startLine, edit.endLine + 1);
+        const first = removed[0];
+        const last = removed[removed.length - 1];
+        const now = Math.floor(Date.now() / 1000);
+
+        const replacement = edit.newLines.map((content, index) => {
+            // Splitting or joining lines leaves the edges untouched: keep their author
+            if (index === 0 && first && first.content === content) {
+                return { ...first, content };
+            }
+            if (index === edit.newLines.length - 1 && last && last.content === content) {
+                return { ...last, content };
+            }
+            return this.uncommittedLine(content, now);
+        });
+
+        this.lines.splice(edit.startLine, edit.endLine - edit.startLine + 1, ...replacement);
+    }
+
+    getBlameData(): BlameLineData[] {
+        const result: BlameLineData[] = [];
+        for (let i = 0; i < this.lines.length; i++) {
+            const lineData = this.lines[i];
+            if (lineData) {
+                result.push(lineData.lineNumber === i + 1 ? lineData : { ...lineData, lineNumber: i + 1 });
+            }
+        }
+        return result;
+    }
+
+    private uncommittedLine(content: string, timestamp: number): BlameLineData {
+        return {
+            author: UNCOMMITTED_AUTHOR,
+            email: '',
+            commit: UNCOMMITTED_HASH,
+            timestamp,
+            lineNumber: 0,
+            content,
+            summary: '',
+            filename: ''
+        };
+    }
+}
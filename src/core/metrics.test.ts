@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { BlameLineData } from './blameParser';
+import { DEFAULT_METRICS_OPTIONS, MetricsCalculator } from './metrics';
+import { identityKey } from './identity';
+
+function line(lineNumber: number, author: string, content: string): BlameLineData {
+    return {
+        author,
+        email: `${author.toLowerCase()}@example.com`,
+        commit: author === 'Alice' ? 'a'.repeat(40) : 'b'.repeat(40),
+        timestamp: 1700000000,
+        lineNumber,
+        content,
+        summary: '',
+        filename: 'file.ts'
+    };
+}
+
+const blameData = [
+    line(1, 'Alice', 'import { a } from "a";'),
+    line(2, 'Alice', ''),
+    line(3, 'Alice', 'a();'),
+    line(4, 'Bob', '   '),
+    line(5, 'Bob', 'b();')
+];
+
+describe('MetricsCalculator', () => {
+    test('counts blank lines unless ignoreBlankLines is set', () => {
+        const counting = new MetricsCalculator(DEFAULT_METRICS_OPTIONS);
+        expect(counting.calculateContributions(blameData).map(c => [c.author, c.lines])).toEqual([['Alice', 3], ['Bob', 2]]);
+        expect(counting.countExcludedLines(blameData)).toBe(0);
+
+        const ignoring = new MetricsCalculator({ ...DEFAULT_METRICS_OPTIONS, ignoreBlankLines: true });
+        expect(ignoring.calculateContributions(blameData).map(c => [c.author, c.lines])).toEqual([['Alice', 2], ['Bob', 1]]);
+        expect(ignoring.countExcludedLines(blameData)).toBe(2);
+    });
+
+    test('reports exclusion patterns that are not valid regexes and applies the rest', () => {
+        const calculator = new MetricsCalculator({ ...DEFAULT_METRICS_OPTIONS, excludeLines: ['^import ', '(unclosed'], excludeAuthors: ['[bob'] });
+
+        expect(calculator.getInvalidPatterns().map(invalid => [invalid.option, invalid.pattern])).toEqual([
+            ['excludeAuthors', '[bob'],
+            ['excludeLines', '(unclosed']
+        ]);
+        expect(calculator.countExcludedLines(blameData)).toBe(1);
+
+        calculator.setOptions(DEFAULT_METRICS_OPTIONS);
+        expect(calculator.getInvalidPatterns()).toEqual([]);
+    });
+
+    test('gives an excluded co-author\'s share to the remaining credits', () => {
+        const coAuthored = [{
+            ...line(1, 'Alice', 'a();'),
+            coAuthors: [{ name: 'Bob', email: 'bob@example.com' }, { name: 'dependabot[bot]', email: 'bot@example.com' }]
+        }];
+        const calculator = new MetricsCalculator({ ...DEFAULT_METRICS_OPTIONS, coAuthorCredit: 'equal', excludeAuthors: ['\\[bot\\]$'] });
+
+        expect(calculator.calculateContributions(coAuthored).map(c => [c.author, c.lines])).toEqual([['Alice', 0.5], ['Bob', 0.5]]);
+    });
+
+    test('leaves comment-only lines out of commit contributions in the code count mode', () => {
+        const commented = [
+            line(1, 'Alice', '// explains a()'),
+            line(2, 'Alice', 'a();'),
+            line(3, 'Bob', '/* explains'),
+            line(4, 'Alice', '   b() */'),
+            line(5, 'Bob', 'b();')
+        ];
+        const calculator = new MetricsCalculator({ ...DEFAULT_METRICS_OPTIONS, countMode: 'code' });
+
+        expect(calculator.calculateCommitContributions(commented, identityKey('Alice', 'alice@example.com'), 'typescript').map(c => c.lines)).toEqual([1]);
+    });
+});
@@ -0,0 +1,406 @@
+import { BlameLineData } from './blameParser';
+import { CommentStripper } from './commentStripper';
+import { identityKey } from './identity';
+
+export interface ContributorMetrics {
+    author: string;
+    email: string;
+    lines: number;
+    characters: number;
+    // Lines weighted by age when countMode is 'recency'
+    weightedLines: number;
+    // Part of `lines` credited through Co-authored-by trailers
+    coAuthoredLines: number;
+    percentage: number;
+    // Author times (unix seconds) of the contributor's newest and oldest surviving lines
+    newestTimestamp: number;
+    oldestTimestamp: number;
+}
+
+// One commit's share of an author's surviving lines
+export interface CommitContribution {
+    commit: string;
+    summary: string;
+    timestamp: number;
+    lines: number;
+    filename: string;
+    previous?: { commit: string; filename: string };
+}
+
+export interface ReportAdjustments {
+    ignoreRevsApplied: boolean;
+    // Lines credited to an earlier author because move/copy detection found their origin
+    movedLines: number;
+}
+
+export interface ContributorReport extends ReportAdjustments {
+    contributors: ContributorMetrics[];
+    // Lines left out by the blank-line, author and line exclusion rules
+    excludedLines: number;
+}
+
+// 'code' counts lines like 'lines' but leaves out comments, using the file's language syntax
+export type CountMode = 'lines' | 'characters' | 'recency' | 'code';
+
+// 'equal' splits a co-authored line evenly between everyone on the commit,
+// 'custom' gives the co-authors coAuthorShare of it between them
+export type CoAuthorCredit = 'off' | 'equal' | 'custom';
+
+export interface MetricsOptions {
+    countMode: CountMode;
+    ignoreBlankLines: boolean;
+    recencyHalfLifeDays: number;
+    coAuthorCredit: CoAuthorCredit;
+    coAuthorShare: number;
+    // Regexes (case-insensitive) tested against author names and emails
+    excludeAuthors: string[];
+    // Regexes tested against line contents, e.g. imports or license headers
+    excludeLines: string[];
+}
+
+export const DEFAULT_METRICS_OPTIONS: MetricsOptions = {
+    countMode: 'lines',
+    ignoreBlankLines: false,
+    recencyHalfLifeDays: 180,
+    coAuthorCredit: 'off',
+    coAuthorShare: 0.5,
+    excludeAuthors: [],
+    excludeLines: []
+};
+
+// A configured exclusion regex that doesn't compile and is therefore ignored
+export interface InvalidPattern {
+    option: 'excludeAuthors' | 'excludeLines';
+    pattern: string;
+    message: string;
+}
+
+interface AuthorStats {
+    author: string;
+    email: string;
+    lines: number;
+    characters: number;
+    weightedLines: number;
+    coAuthoredLines: number;
+    newestTimestamp: number;
+    oldestTimestamp: number;
+}
+
+interface LineCredit {
+    author: string;
+    email: string;
+    share: number;
+    coAuthored: boolean;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export class MetricsCalculator {
+    private excludedAuthorPatterns: RegExp[] = [];
+    private excludedLinePatterns: RegExp[] = [];
+    private invalidPatterns: InvalidPattern[] = [];
+
+    constructor(private options: MetricsOptions = DEFAULT_METRICS_OPTIONS) {
+        this.setOptions(options);
+    }
+
+    getOptions(): MetricsOptions {
+        return this.options;
+    }
+
+    setOptions(options: MetricsOptions): void {
+        this.options = options;
+        this.invalidPatterns = [];
+        this.excludedAuthorPatterns = this.compilePatterns('excludeAuthors', options.excludeAuthors, 'i');
+        this.excludedLinePatterns = this.compilePatterns('excludeLines', options.excludeLines, '');
+    }
+
+    getInvalidPatterns(): InvalidPattern[] {
+        return this.invalidPatterns;
+    }
+
+    calculateContributions(blameData: BlameLineData[], languageId?: string): ContributorMetrics[] {
+        if (blameData.length === 0) {
+            return [];
+        }
+
+        const { countMode } = this.options;
+        const halfLifeDays = Math.max(1, this.options.recencyHalfLifeDays);
+        const now = Date.now() / 1000;
+
+        // Group by canonical identity (email when known, name otherwise)
+        const authorStats = new Map<string, AuthorStats>();
+
+        for (const { lineData, content } of this.getCountedLines(blameData, languageId)) {
+            const { timestamp } = lineData;
+
+            // Exponential decay: a line one half-life old counts as half a line
+            const ageDays = Math.max(0, now - timestamp) / SECONDS_PER_DAY;
+            const weight = Math.pow(0.5, ageDays / halfLifeDays);
+
+            for (const credit of this.getLineCredits(lineData)) {
+                const key = identityKey(credit.author, credit.email);
+                const existing = authorStats.get(key) || this.emptyStats(credit.author, credit.email);
+                existing.lines += credit.share;
+                existing.characters += content.length * credit.share;
+                existing.weightedLines += weight * credit.share;
+                if (credit.coAuthored) {
+                    existing.coAuthoredLines += credit.share;
+                }
+                existing.newestTimestamp = Math.max(existing.newestTimestamp, timestamp);
+                existing.oldestTimestamp = Math.min(existing.oldestTimestamp, timestamp);
+                authorStats.set(key, existing);
+            }
+        }
+
+        return this.buildMetrics(authorStats, countMode);
+    }
+
+    // Commits that still own lines of the given identity, largest first
+    calculateCommitContributions(blameData: BlameLineData[], identity: string, languageId?: string): CommitContribution[] {
+        const commits = new Map<string, CommitContribution>();
+
+        for (const { lineData } of this.getCountedLines(blameData, languageId)) {
+            const credit = this.getLineCredits(lineData).find(c => identityKey(c.author, c.email) === identity);
+            if (!credit) {
+                continue;
+            }
+
+            const existing = commits.get(lineData.commit);
+            if (existing) {
+                existing.lines += credit.share;
+                continue;
+            }
+            commits.set(lineData.commit, {
+                commit: lineData.commit,
+                summary: lineData.summary,
+                timestamp: lineData.timestamp,
+                lines: credit.share,
+                filename: lineData.filename,
+                previous: lineData.previous
+            });
+        }
+
+        return Array.from(commits.values()).sort((a, b) => b.lines - a.lines || b.timestamp - a.timestamp);
+    }
+
+    // Merge per-file metrics (e.g. every file of a folder) into one ranking
+    combineContributions(metricsList: ContributorMetrics[][]): ContributorMetrics[] {
+        const { countMode } = this.options;
+
+        const authorStats = new Map<string, AuthorStats>();
+
+        for (const metrics of metricsList) {
+            for (const contributor of metrics) {
+                const key = identityKey(contributor.author, contributor.email);
+                const existing = authorStats.get(key) || this.emptyStats(contributor.author, contributor.email);
+                existing.lines += contributor.lines;
+                existing.characters += contributor.characters;
+                existing.weightedLines += contributor.weightedLines;
+                existing.coAuthoredLines += contributor.coAuthoredLines;
+                existing.newestTimestamp = Math.max(existing.newestTimestamp, contributor.newestTimestamp);
+                existing.oldestTimestamp = Math.min(existing.oldestTimestamp, contributor.oldestTimestamp);
+                authorStats.set(key, existing);
+            }
+        }
+
+        return this.buildMetrics(authorStats, countMode);
+    }
+
+    private buildMetrics(authorStats: Map<string, AuthorStats>, countMode: CountMode): ContributorMetrics[] {
+        // Calculate totals
+        let totalValue = 0;
+        
+        for (const stats of authorStats.values()) {
+            totalValue += this.getCountValue(stats, countMode);
+        }
+
+        // Convert to metrics array
+        const metrics: ContributorMetrics[] = [];
+        
+        for (const stats of authorStats.values()) {
+            const countValue = this.getCountValue(stats, countMode);
+            const percentage = totalValue > 0 ? Math.round((countValue / totalValue) * 100) : 0;
+            
+            metrics.push({ ...stats, percentage });
+        }
+
+        // Sort by the selected count mode (descending)
+        metrics.sort((a, b) => this.getCountValue(b, countMode) - this.getCountValue(a, countMode));
+
+        return metrics;
+    }
+
+    // Fewest contributors who together own at least `threshold` (0-1) of the counted total
+    calculateBusFactor(metrics: ContributorMetrics[], threshold: number): number {
+        const { countMode } = this.options;
+        const totalValue = metrics.reduce((sum, c) => sum + this.getCountValue(c, countMode), 0);
+        if (totalValue <= 0) {
+            return 0;
+        }
+
+        const sorted = [...metrics].sort((a, b) => this.getCountValue(b, countMode) - this.getCountValue(a, countMode));
+        const target = Math.min(1, Math.max(0, threshold)) * totalValue;
+        let owned = 0;
+        for (let i = 0; i < sorted.length; i++) {
+            owned += this.getCountValue(sorted[i], countMode);
+            if (owned >= target) {
+                return i + 1;
+            }
+        }
+        return sorted.length;
+    }
+
+    getCountValue(stats: Pick<ContributorMetrics, 'lines' | 'characters' | 'weightedLines'>, countMode: CountMode = this.options.countMode): number {
+        if (countMode === 'characters') {
+            return stats.characters;
+        }
+        if (countMode === 'recency') {
+            return stats.weightedLines;
+        }
+        return stats.lines;
+    }
+
+    // The lines that count, with comments stripped in the 'code' count mode
+    private getCountedLines(blameData: BlameLineData[], languageId?: string): Array<{ lineData: BlameLineData; content: string }> {
+        const { countMode } = this.options;
+        const commentStripper = countMode === 'code' ? CommentStripper.forLanguage(languageId) : undefined;
+        // Block comments carry over between lines, so the stripper needs them in document order
+        const lines = commentStripper ? [...blameData].sort((a, b) => a.lineNumber - b.lineNumber) : blameData;
+
+        const counted: Array<{ lineData: BlameLineData; content: string }> = [];
+        for (const lineData of lines) {
+            const content = commentStripper ? commentStripper.strip(lineData.content).replace(/\s+$/, '') : lineData.content;
+
+            // Skip blank lines, excluded authors and excluded lines if configured
+            if (this.isExcluded(lineData)) {
+                continue;
+            }
+            // Comment-only lines carry no code
+            if (countMode === 'code' && this.isBlankLine(content)) {
+                continue;
+            }
+            counted.push({ lineData, content });
+        }
+        return counted;
+    }
+
+    // How one line's credit is split between its author and the commit's co-authors
+    private getLineCredits(lineData: BlameLineData): LineCredit[] {
+        const { coAuthorCredit } = this.options;
+        // Excluded co-authors get no credit; what would have been theirs stays with the others
+        const coAuthors = (lineData.coAuthors || []).filter(identity => !this.isExcludedAuthor(identity.name, identity.email));
+        if (coAuthorCredit === 'off' || coAuthors.length === 0) {
+            return [{ author: lineData.author, email: lineData.email, share: 1, coAuthored: false }];
+        }
+
+        const coAuthorsShare = coAuthorCredit === 'equal'
+            ? coAuthors.length / (coAuthors.length + 1)
+            : Math.min(1, Math.max(0, this.options.coAuthorShare));
+        return [
+            { author: lineData.author, email: lineData.email, share: 1 - coAuthorsShare, coAuthored: false },
+            ...coAuthors.map(identity => ({
+                author: identity.name,
+                email: identity.email,
+                share: coAuthorsShare / coAuthors.length,
+                coAuthored: true
+            }))
+        ].filter(credit => credit.share > 0);
+    }
+
+    private emptyStats(author: string, email: string): AuthorStats {
+        return {
+            author,
+            email,
+            lines: 0,
+            characters: 0,
+            weightedLines: 0,
+            coAuthoredLines: 0,
+            newestTimestamp: 0,
+            oldestTimestamp: Number.MAX_SAFE_INTEGER
+        };
+    }
+
+    countExcludedLines(blameData: BlameLineData[]): number {
+        return blameData.filter(lineData => this.isExcluded(lineData)).length;
+    }
+
+    private isExcluded(lineData: BlameLineData): boolean {
+        if (this.options.ignoreBlankLines && this.isBlankLine(lineData.content)) {
+            return true;
+        }
+        if (this.isExcludedAuthor(lineData.author, lineData.email)) {
+            return true;
+        }
+        return this.excludedLinePatterns.some(pattern => pattern.test(lineData.content));
+    }
+
+    private isExcludedAuthor(name: string, email: string): boolean {
+        return this.excludedAuthorPatterns.some(pattern => pattern.test(name) || (!!email && pattern.test(email)));
+    }
+
+    private compilePatterns(option: InvalidPattern['option'], patterns: string[] = [], flags: string): RegExp[] {
+        const compiled: RegExp[] = [];
+        for (const pattern of patterns) {
+            if (!pattern) {
+                continue;
+            }
+            try {
+                compiled.push(new RegExp(pattern, flags));
+            } catch (error) {
+                this.invalidPatterns.push({ option, pattern, message: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        return compiled;
+    }
+
+    private isBlankLine(content: string): boolean {
+        return content.trim().length === 0;
+    }
+
+    getTopContributor(metrics: ContributorMetrics[]): ContributorMetrics | null {
+        return metrics.length > 0 ? metrics[0] : null;
+    }
+
+    formatContributorSummary(metrics: ContributorMetrics[], maxCount: number = 3): string {
+        const top = metrics.slice(0, maxCount);
+        const { countMode } = this.options;
+        
+        const lines = top.map(contributor => {
+            const countValue = this.formatCountValue(this.getCountValue(contributor, countMode));
+            const unit = this.getUnit(countMode, true);
+            const dates = `${this.formatDate(contributor.oldestTimestamp)} → ${this.formatDate(contributor.newestTimestamp)}`;
+            return `${contributor.author}: ${contributor.percentage}% (${countValue} ${unit}, ${dates})`;
+        });
+
+        const totalValue = metrics.reduce((sum, c) => sum + this.getCountValue(c, countMode), 0);
+        
+        lines.push(`Total: ${this.formatCountValue(totalValue)} ${this.getUnit(countMode, false)}`);
+        
+        return lines.join('\n');
+    }
+
+    getUnit(countMode: CountMode = this.options.countMode, short: boolean = false): string {
+        if (countMode === 'characters') {
+            return short ? 'chars' : 'characters';
+        }
+        if (countMode === 'recency') {
+            return 'weighted lines';
+        }
+        if (countMode === 'code') {
+            return 'code lines';
+        }
+        return 'lines';
+    }
+
+    formatCountValue(value: number): string {
+        return Number.isInteger(value) ? String(value) : value.toFixed(1);
+    }
+
+    formatDate(timestamp: number): string {
+        if (!timestamp || timestamp === Number.MAX_SAFE_INTEGER) {
+            return '—';
+        }
+        return new Date(timestamp * 1000).toISOString().substring(0, 10);
+    }
+}
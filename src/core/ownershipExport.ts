@@ -0,0 +1,246 @@
+import { BlameLineData } from './blameParser';
+import { FolderOwnership } from './folderAnalyzer';
+import { LineRange } from './gitRunner';
+import { findAuthorHunks } from './hunks';
+import { identityKey } from './identity';
+import { ContributorMetrics, ContributorReport, MetricsCalculator } from './metrics';
+import { ReportFormatter, ReportTarget } from './reportFormatter';
+
+export type ExportFormat = 'markdown' | 'html';
+
+export type ExportScope = 'file' | 'selection' | 'folder';
+
+// A stretch of an author's ownership: a hunk of a file, or a whole file within a folder
+export interface OwnershipHighlight {
+    label: string;
+    lines: number;
+}
+
+export interface OwnershipExport {
+    target: ReportTarget;
+    scope: ExportScope;
+    // Selected lines when scope is 'selection'
+    lineRanges: LineRange[];
+    // Commit the numbers were computed at; undefined when the repository has no commits yet
+    revision?: string;
+    // Unix seconds
+    generatedAt: number;
+    // Keyed by identityKey, largest first
+    highlights: Map<string, OwnershipHighlight[]>;
+}
+
+// Hunks or files listed per author
+const MAX_HIGHLIGHTS = 5;
+
+export class OwnershipExporter {
+    private reportFormatter: ReportFormatter;
+
+    constructor(private metricsCalculator: MetricsCalculator) {
+        this.reportFormatter = new ReportFormatter(metricsCalculator);
+    }
+
+    fromBlame(path: string, blameData: BlameLineData[], report: ContributorReport, lineRanges: LineRange[] = []): OwnershipExport {
+        const highlights = new Map<string, OwnershipHighlight[]>();
+        for (const contributor of report.contributors) {
+            const identity = identityKey(contributor.author, contributor.email);
+            const hunks = findAuthorHunks(blameData, identity)
+                .map(hunk => ({
+                    label: `${hunk.start === hunk.end ? 'Line' : 'Lines'} ${this.formatRange(hunk)}`,
+                    lines: hunk.end - hunk.start + 1
+                }))
+                .sort((a, b) => b.lines - a.lines);
+            highlights.set(identity, hunks.slice(0, MAX_HIGHLIGHTS));
+        }
+
+        return {
+            target: {
+                path,
+                contributors: report.contributors,
+                ignoreRevsApplied: report.ignoreRevsApplied,
+                movedLines: report.movedLines,
+                excludedLines: report.excludedLines,
+                analyzedFiles: 1,
+                skippedFiles: 0,
+                excludedFiles: 0
+            },
+            scope: lineRanges.length > 0 ? 'selection' : 'file',
+            lineRanges,
+            generatedAt: Math.floor(Date.now() / 1000),
+            highlights
+        };
+    }
+
+    fromFolder(path: string, ownership: FolderOwnership): OwnershipExport {
+        const highlights = new Map<string, OwnershipHighlight[]>();
+        ownership.files.forEach((contributors, filePath) => {
+            for (const contributor of contributors) {
+                const identity = identityKey(contributor.author, contributor.email);
+                const files = highlights.get(identity) || [];
+                files.push({ label: filePath, lines: contributor.lines });
+                highlights.set(identity, files);
+            }
+        });
+        highlights.forEach((files, identity) => {
+            highlights.set(identity, files.sort((a, b) => b.lines - a.lines).slice(0, MAX_HIGHLIGHTS));
+        });
+
+        return {
+            target: {
+                path,
+                contributors: ownership.directories.get('') || [],
+                ignoreRevsApplied: ownership.ignoreRevsApplied,
+                movedLines: ownership.movedLines,
+                excludedLines: ownership.excludedLines,
+                analyzedFiles: ownership.analyzedFiles,
+                skippedFiles: ownership.skippedFiles,
+                excludedFiles: ownership.excludedFiles
+            },
+            scope: 'folder',
+            lineRanges: [],
+            generatedAt: Math.floor(Date.now() / 1000),
+            highlights
+        };
+    }
+
+    render(data: OwnershipExport, format: ExportFormat): string {
+        return format === 'html' ? this.renderHtml(data) : this.renderMarkdown(data);
+    }
+
+    private renderMarkdown(data: OwnershipExport): string {
+        const { contributors } = data.target;
+        const lines = [`# Contributors: ${this.escapeMarkdown(data.target.path)}`, ''];
+        lines.push(...this.describe(data).map(note => `- ${this.escapeMarkdown(note)}`), '');
+
+        if (contributors.length === 0) {
+            lines.push('_No attributed lines._');
+            return lines.join('\n') + '\n';
+        }
+
+        lines.push('## Summary', '', '```', this.metricsCalculator.formatContributorSummary(contributors, 3), '```', '');
+        lines.push('## Authors', '');
+        lines.push('| Author | % of lines | Lines | % of characters | Characters | Co-authored lines | Oldest | Newest |');
+        lines.push('| --- | ---: | ---: | ---: | ---: | ---: | --- | --- |');
+        for (const row of this.buildRows(contributors)) {
+            lines.push(`| ${this.escapeMarkdown(row.author)} | ${row.linePercentage}% | ${row.lines} | ${row.characterPercentage}% | ${row.characters} | ${row.coAuthoredLines} | ${row.oldest} | ${row.newest} |`);
+        }
+
+        lines.push('', `## ${this.highlightTitle(data.scope)}`);
+        for (const contributor of contributors) {
+            const highlights = data.highlights.get(identityKey(contributor.author, contributor.email)) || [];
+            if (highlights.length === 0) {
+                continue;
+            }
+            lines.push('', `### ${this.escapeMarkdown(contributor.author)}`, '');
+            for (const highlight of highlights) {
+                lines.push(`- ${this.escapeMarkdown(highlight.label)}: ${this.metricsCalculator.formatCountValue(highlight.lines)} lines`);
+            }
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    // Inline styles only, so the file can be mailed or attached on its own
+    private renderHtml(data: OwnershipExport): string {
+        const { contributors } = data.target;
+        const notes = this.describe(data).map(note => `<li>${this.escapeHtml(note)}</li>`).join('\n');
+
+        let body: string;
+        if (contributors.length === 0) {
+            body = '<p><em>No attributed lines.</em></p>';
+        } else {
+            const rows = this.buildRows(contributors).map(row =>
+                `<tr><td>${this.escapeHtml(row.author)}</td><td>${row.linePercentage}%</td><td>${row.lines}</td><td>${row.characterPercentage}%</td><td>${row.characters}</td><td>${row.coAuthoredLines}</td><td>${row.oldest}</td><td>${row.newest}</td></tr>`
+            ).join('\n');
+            const highlights = contributors.map(contributor => {
+                const items = (data.highlights.get(identityKey(contributor.author, contributor.email)) || [])
+                    .map(highlight => `<li>${this.escapeHtml(highlight.label)}: ${this.metricsCalculator.formatCountValue(highlight.lines)} lines</li>`)
+                    .join('');
+                return items ? `<h3>${this.escapeHtml(contributor.author)}</h3><ul>${items}</ul>` : '';
+            }).join('\n');
+
+            body = `<h2>Summary</h2>
+<pre>${this.escapeHtml(this.metricsCalculator.formatContributorSummary(contributors, 3))}</pre>
+<h2>Authors</h2>
+<table>
+<thead><tr><th>Author</th><th>% of lines</th><th>Lines</th><th>% of characters</th><th>Characters</th><th>Co-authored lines</th><th>Oldest</th><th>Newest</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<h2>${this.highlightTitle(data.scope)}</h2>
+${highlights}`;
+        }
+
+        const title = `Contributors: ${data.target.path}`;
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${this.escapeHtml(title)}</title>
+<style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 24px; color: #222; }
+    table { border-collapse: collapse; }
+    th, td { padding: 4px 10px; text-align: right; border-bottom: 1px solid #ddd; }
+    th:first-child, td:first-child { text-align: left; }
+    pre { background: #f5f5f5; padding: 8px; }
+    .notes { color: #666; }
+</style>
+</head>
+<body>
+<h1>${this.escapeHtml(title)}</h1>
+<ul class="notes">
+${notes}
+</ul>
+${body}
+</body>
+</html>
+`;
+    }
+
+    private buildRows(contributors: ContributorMetrics[]) {
+        const totalLines = contributors.reduce((sum, c) => sum + c.lines, 0);
+        const totalCharacters = contributors.reduce((sum, c) => sum + c.characters, 0);
+        return contributors.map(contributor => ({
+            author: contributor.email ? `${contributor.author} <${contributor.email}>` : contributor.author,
+            linePercentage: this.percentage(contributor.lines, totalLines),
+            lines: this.metricsCalculator.formatCountValue(contributor.lines),
+            characterPercentage: this.percentage(contributor.characters, totalCharacters),
+            characters: this.metricsCalculator.formatCountValue(contributor.characters),
+            coAuthoredLines: this.metricsCalculator.formatCountValue(contributor.coAuthoredLines),
+            oldest: this.metricsCalculator.formatDate(contributor.oldestTimestamp),
+            newest: this.metricsCalculator.formatDate(contributor.newestTimestamp)
+        }));
+    }
+
+    private describe(data: OwnershipExport): string[] {
+        return [
+            data.scope === 'selection' ? `Scope: lines ${data.lineRanges.map(range => this.formatRange(range)).join(', ')}` : `Scope: ${data.scope}`,
+            `Revision: ${data.revision || 'no commits yet'}`,
+            `Generated: ${new Date(data.generatedAt * 1000).toISOString().replace('T', ' ').substring(0, 16)} UTC`,
+            ...this.reportFormatter.describeTarget(data.target)
+        ];
+    }
+
+    private formatRange(range: LineRange): string {
+        return range.start === range.end ? `${range.start}` : `${range.start}–${range.end}`;
+    }
+
+    private highlightTitle(scope: ExportScope): string {
+        return scope === 'folder' ? 'Top files' : 'Top hunks';
+    }
+
+    private percentage(value: number, total: number): number {
+        return total > 0 ? Math.round((value / total) * 1000) / 10 : 0;
+    }
+
+    private escapeMarkdown(value: string): string {
+        return value.replace(/([|\\*_`<>#[\]])/g, '\\$1');
+    }
+
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
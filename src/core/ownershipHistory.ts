@@ -0,0 +1,82 @@
+import * as path from 'path';
+import { BlameOptions, FileRevision, GitRunner } from './gitRunner';
+import { BlameParser } from './blameParser';
+import { ContributorMetrics, MetricsCalculator } from './metrics';
+import { languageForPath } from './commentStripper';
+
+export interface HistoryOptions {
+    maxSamples: number;
+    blameOptions?: BlameOptions;
+    onProgress?: (processed: number, total: number, revision: FileRevision) => void;
+    isCancelled?: () => boolean;
+}
+
+export interface OwnershipSample {
+    revision: FileRevision;
+    contributors: ContributorMetrics[];
+}
+
+export interface OwnershipTimeline {
+    repoRoot: string;
+    // Oldest first
+    samples: OwnershipSample[];
+    totalRevisions: number;
+    cancelled: boolean;
+}
+
+export class OwnershipHistory {
+    constructor(
+        private gitRunner: GitRunner,
+        private blameParser: BlameParser,
+        private metricsCalculator: MetricsCalculator
+    ) {}
+
+    async analyze(filePath: string, options: HistoryOptions): Promise<OwnershipTimeline> {
+        const repoRoot = await this.gitRunner.getRepositoryRoot(filePath);
+        const revisions = (await this.gitRunner.getFileHistory(filePath)).reverse();
+        const sampled = this.sample(revisions, options.maxSamples);
+
+        const samples: OwnershipSample[] = [];
+        let cancelled = false;
+
+        for (let i = 0; i < sampled.length; i++) {
+            if (options.isCancelled && options.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
+            const revision = sampled[i];
+            if (options.onProgress) {
+                options.onProgress(i, sampled.length, revision);
+            }
+
+            try {
+                const pathAtRevision = path.join(repoRoot, revision.path);
+                const blameData = await this.blameParser.getBlameDataAtRevision(pathAtRevision, revision.commit, this.gitRunner, options.blameOptions);
+                samples.push({
+                    revision,
+                    contributors: this.metricsCalculator.calculateContributions(blameData, languageForPath(revision.path))
+                });
+            } catch (error) {
+                // e.g. a deletion commit: there is nothing left to blame at that point
+                console.error(`Error blaming ${revision.path} at ${revision.commit}:`, error);
+            }
+        }
+
+        return { repoRoot, samples, totalRevisions: revisions.length, cancelled };
+    }
+
+    // Evenly spaced picks that always keep the first and the latest revision
+    private sample(revisions: FileRevision[], maxSamples: number): FileRevision[] {
+        if (revisions.length <= maxSamples || maxSamples < 2) {
+            return revisions.slice(-Math.max(1, maxSamples));
+        }
+
+        const picked: FileRevision[] = [];
+        const step = (revisions.length - 1) / (maxSamples - 1);
+        for (let i = 0; i < maxSamples; i++) {
+            picked.push(revisions[Math.round(i * step)]);
+        }
+        return picked;
+    }
+}
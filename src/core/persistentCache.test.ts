@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContributorReport } from './metrics';
+import { PersistentCache } from './persistentCache';
+
+const report: ContributorReport = { contributors: [], ignoreRevsApplied: false, movedLines: 0, excludedLines: 0 };
+
+describe('PersistentCache', () => {
+    let directory: string;
+    let cacheFilePath: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'git-flex-cache-'));
+        cacheFilePath = path.join(directory, 'cache.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('does not rewrite the file on reads', async () => {
+        const cache = new PersistentCache(cacheFilePath, 1024 * 1024);
+        await cache.set('a', report);
+        await cache.save();
+        const written = fs.statSync(cacheFilePath).mtimeMs;
+        fs.utimesSync(cacheFilePath, 0, 0);
+
+        expect(await cache.get('a')).toEqual(report);
+        await cache.save();
+        expect(fs.statSync(cacheFilePath).mtimeMs).toBe(0);
+        expect(written).toBeGreaterThan(0);
+    });
+
+    test('keeps the least recently read entries out when it has to evict', async () => {
+        const size = Buffer.byteLength('a') + Buffer.byteLength(JSON.stringify(report));
+        const cache = new PersistentCache(cacheFilePath, size * 2);
+        await cache.set('a', report);
+        await cache.set('b', report);
+        await cache.get('a');
+        await cache.set('c', report);
+        await cache.save();
+
+        const reloaded = new PersistentCache(cacheFilePath, size * 2);
+        expect(await reloaded.get('a')).toEqual(report);
+        expect(await reloaded.get('b')).toBeNull();
+        expect(await reloaded.get('c')).toEqual(report);
+    });
+});
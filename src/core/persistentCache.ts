@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContributorReport } from './metrics';
+
+interface PersistentCacheFile {
+    version: number;
+    // Least recently used first
+    entries: Array<[string, ContributorReport]>;
+}
+
+interface PersistentEntry {
+    data: ContributorReport;
+    size: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    sizeBytes: number;
+    maxSizeBytes: number;
+    hits: number;
+    misses: number;
+}
+
+// Bumped whenever the computed reports change for the same inputs
+const CACHE_FILE_VERSION = 2;
+
+// Writes wait until changes have stopped for this long
+const SAVE_DELAY = 2000;
+
+export class PersistentCache {
+    // Map iteration order doubles as recency order: oldest first
+    private entries = new Map<string, PersistentEntry>();
+    private sizeBytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private loading: Promise<void> | undefined;
+    private saveTimer: NodeJS.Timeout | undefined;
+    private saving: Promise<void> | undefined;
+    private dirty = false;
+
+    constructor(private cacheFilePath: string, private maxSizeBytes: number) {}
+
+    async get(key: string): Promise<ContributorReport | null> {
+        await this.load();
+
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.misses++;
+            return null;
+        }
+
+        // Move to the most recently used end; the new order is only written with the next change
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return entry.data;
+    }
+
+    async set(key: string, data: ContributorReport): Promise<void> {
+        await this.load();
+
+        const size = Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(data));
+        if (size > this.maxSizeBytes) {
+            return;
+        }
+
+        this.remove(key);
+        this.entries.set(key, { data, size });
+        this.sizeBytes += size;
+        this.evict();
+        this.scheduleSave();
+    }
+
+    setMaxSize(maxSizeBytes: number): void {
+        this.maxSizeBytes = maxSizeBytes;
+        if (this.evict()) {
+            this.scheduleSave();
+        }
+    }
+
+    async clear(): Promise<void> {
+        await this.load();
+        this.entries.clear();
+        this.sizeBytes = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.scheduleSave();
+    }
+
+    async getStats(): Promise<CacheStats> {
+        await this.load();
+        return {
+            entries: this.entries.size,
+            sizeBytes: this.sizeBytes,
+            maxSizeBytes: this.maxSizeBytes,
+            hits: this.hits,
+            misses: this.misses
+        };
+    }
+
+    // Writes pending changes now, without blocking
+    async save(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        // One write at a time; changes made meanwhile go into the next one
+        while (this.saving) {
+            await this.saving;
+        }
+        if (!this.dirty) {
+            return;
+        }
+
+        this.dirty = false;
+        this.saving = this.writeCacheFile();
+        try {
+            await this.saving;
+        } finally {
+            this.saving = undefined;
+        }
+    }
+
+    // Writes pending changes synchronously, for shutdown
+    flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        if (!this.dirty) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(this.cacheFilePath), { recursive: true });
+            const tempPath = `${this.cacheFilePath}.tmp`;
+            fs.writeFileSync(tempPath, this.serialize(), 'utf8');
+            fs.renameSync(tempPath, this.cacheFilePath);
+            this.dirty = false;
+        } catch (error) {
+            console.error('Error saving contributor cache:', error);
+        }
+    }
+
+    private async writeCacheFile(): Promise<void> {
+        try {
+            await fs.promises.mkdir(path.dirname(this.cacheFilePath), { recursive: true });
+            const tempPath = `${this.cacheFilePath}.tmp`;
+            await fs.promises.writeFile(tempPath, this.serialize(), 'utf8');
+            await fs.promises.rename(tempPath, this.cacheFilePath);
+        } catch (error) {
+            this.dirty = true;
+            console.error('Error saving contributor cache:', error);
+        }
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readCacheFile();
+        }
+        return this.loading;
+    }
+
+    private async readCacheFile(): Promise<void> {
+        try {
+            const raw = await fs.promises.readFile(this.cacheFilePath, 'utf8');
+            const parsed = JSON.parse(raw) as PersistentCacheFile;
+            if (parsed.version !== CACHE_FILE_VERSION || !Array.isArray(parsed.entries)) {
+                return;
+            }
+            for (const [key, data] of parsed.entries) {
+                const size = Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(data));
+                this.entries.set(key, { data, size });
+                this.sizeBytes += size;
+            }
+            this.evict();
+        } catch {
+            // Missing or corrupt cache file: start empty
+        }
+    }
+
+    private remove(key: string): void {
+        const existing = this.entries.get(key);
+        if (existing) {
+            this.sizeBytes -= existing.size;
+            this.entries.delete(key);
+        }
+    }
+
+    // Whether anything was evicted
+    private evict(): boolean {
+        let evicted = false;
+        while (this.sizeBytes > this.maxSizeBytes && this.entries.size > 0) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.remove(oldestKey);
+            evicted = true;
+        }
+        return evicted;
+    }
+
+    // Debounced: a burst of changes becomes one write
+    private scheduleSave(): void {
+        this.dirty = true;
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY);
+    }
+
+    private serialize(): string {
+        const file: PersistentCacheFile = {
+            version: CACHE_FILE_VERSION,
+            entries: Array.from(this.entries.entries()).map(([key, entry]) => [key, entry.data])
+        };
+        return JSON.stringify(file);
+    }
+}
@@ -0,0 +1,169 @@
+import { ContributorMetrics, MetricsCalculator } from './metrics';
+
+export type ReportFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['table', 'json', 'csv', 'markdown'];
+
+export interface ReportTarget {
+    path: string;
+    contributors: ContributorMetrics[];
+    ignoreRevsApplied: boolean;
+    movedLines: number;
+    excludedLines: number;
+    analyzedFiles: number;
+    skippedFiles: number;
+    excludedFiles: number;
+}
+
+export class ReportFormatter {
+    constructor(private metricsCalculator: MetricsCalculator) {}
+
+    format(targets: ReportTarget[], format: ReportFormat): string {
+        switch (format) {
+            case 'json':
+                return this.formatJson(targets);
+            case 'csv':
+                return this.formatCsv(targets);
+            case 'markdown':
+                return this.formatMarkdown(targets);
+            default:
+                return this.formatTable(targets);
+        }
+    }
+
+    private formatJson(targets: ReportTarget[]): string {
+        const { countMode } = this.metricsCalculator.getOptions();
+        return JSON.stringify({
+            countMode,
+            targets: targets.map(target => ({
+                path: target.path,
+                analyzedFiles: target.analyzedFiles,
+                skippedFiles: target.skippedFiles,
+                ignoreRevsApplied: target.ignoreRevsApplied,
+                movedLines: target.movedLines,
+                excludedLines: target.excludedLines,
+                excludedFiles: target.excludedFiles,
+                contributors: target.contributors.map(contributor => ({
+                    author: contributor.author,
+                    email: contributor.email,
+                    percentage: contributor.percentage,
+                    lines: Number(contributor.lines.toFixed(3)),
+                    coAuthoredLines: Number(contributor.coAuthoredLines.toFixed(3)),
+                    characters: Number(contributor.characters.toFixed(3)),
+                    weightedLines: Number(contributor.weightedLines.toFixed(3)),
+                    oldest: this.toIsoDate(contributor.oldestTimestamp),
+                    newest: this.toIsoDate(contributor.newestTimestamp)
+                }))
+            }))
+        }, null, 2);
+    }
+
+    private formatCsv(targets: ReportTarget[]): string {
+        const rows = [['path', 'author', 'email', 'percentage', 'lines', 'characters', 'weighted_lines', 'oldest', 'newest', 'co_authored_lines']];
+        for (const target of targets) {
+            for (const contributor of target.contributors) {
+                rows.push([
+                    target.path,
+                    contributor.author,
+                    contributor.email,
+                    String(contributor.percentage),
+                    this.metricsCalculator.formatCountValue(contributor.lines),
+                    this.metricsCalculator.formatCountValue(contributor.characters),
+                    contributor.weightedLines.toFixed(3),
+                    this.toIsoDate(contributor.oldestTimestamp) || '',
+                    this.toIsoDate(contributor.newestTimestamp) || '',
+                    this.metricsCalculator.formatCountValue(contributor.coAuthoredLines)
+                ]);
+            }
+        }
+        return rows.map(row => row.map(cell => this.escapeCsv(cell)).join(',')).join('\n');
+    }
+
+    private formatMarkdown(targets: ReportTarget[]): string {
+        const showWeighted = this.metricsCalculator.getOptions().countMode === 'recency';
+        const sections = targets.map(target => {
+            const lines = [`## ${target.path}`, ''];
+            const notes = this.describeTarget(target);
+            if (notes.length > 0) {
+                lines.push(...notes.map(note => `_${note}_`), '');
+            }
+            lines.push(`| Author | % | Lines | Characters | ${showWeighted ? 'Weighted lines | ' : ''}Oldest | Newest |`);
+            lines.push(`| --- | ---: | ---: | ---: | ${showWeighted ? '---: | ' : ''}--- | --- |`);
+            for (const contributor of target.contributors) {
+                const author = contributor.email ? `${contributor.author} <${contributor.email}>` : contributor.author;
+                const weighted = showWeighted ? `${this.metricsCalculator.formatCountValue(contributor.weightedLines)} | ` : '';
+                lines.push(`| ${this.escapeMarkdown(author)} | ${contributor.percentage}% | ${this.metricsCalculator.formatCountValue(contributor.lines)} | ${this.metricsCalculator.formatCountValue(contributor.characters)} | ${weighted}${this.metricsCalculator.formatDate(contributor.oldestTimestamp)} | ${this.metricsCalculator.formatDate(contributor.newestTimestamp)} |`);
+            }
+            return lines.join('\n');
+        });
+        return sections.join('\n\n');
+    }
+
+    private formatTable(targets: ReportTarget[]): string {
+        const sections = targets.map(target => {
+            const header = ['Author', '%', this.capitalize(this.metricsCalculator.getUnit()), 'Oldest', 'Newest'];
+            const rows = target.contributors.map(contributor => [
+                contributor.author,
+                `${contributor.percentage}%`,
+                this.countCell(contributor),
+                this.metricsCalculator.formatDate(contributor.oldestTimestamp),
+                this.metricsCalculator.formatDate(contributor.newestTimestamp)
+            ]);
+
+            const widths = header.map((title, column) =>
+                Math.max(title.length, ...rows.map(row => row[column].length)));
+            const renderRow = (row: string[]) => row
+                .map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+                .join('  ')
+                .trimEnd();
+
+            return [
+                target.path,
+                ...this.describeTarget(target),
+                '',
+                renderRow(header),
+                widths.map(width => '-'.repeat(width)).join('  '),
+                ...rows.map(renderRow)
+            ].join('\n');
+        });
+        return sections.join('\n\n');
+    }
+
+    describeTarget(target: ReportTarget): string[] {
+        const notes: string[] = [];
+        if (target.analyzedFiles !== 1 || target.skippedFiles > 0) {
+            notes.push(`${target.analyzedFiles} files analyzed, ${target.skippedFiles} skipped`);
+        }
+        if (target.ignoreRevsApplied) {
+            notes.push('Ignored revisions applied');
+        }
+        if (target.excludedFiles > 0 || target.excludedLines > 0) {
+            notes.push(`Excluded: ${target.excludedFiles} files, ${target.excludedLines} lines`);
+        }
+        if (target.movedLines > 0) {
+            notes.push(`${target.movedLines} moved or copied lines credited to their original authors`);
+        }
+        return notes;
+    }
+
+    private countCell(contributor: ContributorMetrics): string {
+        return this.metricsCalculator.formatCountValue(this.metricsCalculator.getCountValue(contributor));
+    }
+
+    private toIsoDate(timestamp: number): string | null {
+        const formatted = this.metricsCalculator.formatDate(timestamp);
+        return formatted === '—' ? null : formatted;
+    }
+
+    private escapeCsv(value: string): string {
+        return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private escapeMarkdown(value: string): string {
+        return value.replace(/([|\\*_`<>])/g, '\\$1');
+    }
+
+    private capitalize(value: string): string {
+        return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+}
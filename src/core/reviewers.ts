@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { BlameOptions, ChangeSource, GitRunner } from './gitRunner';
+import { BlameParser } from './blameParser';
+import { UNCOMMITTED_AUTHOR, identityKey } from './identity';
+import { ContributorMetrics, MetricsCalculator } from './metrics';
+
+export interface ReviewerOptions {
+    // Emails of the person asking as blame reports them (mailmapped and alias-resolved), left out of the ranking
+    excludeEmails: string[];
+    blameOptions?: BlameOptions;
+    onProgress?: (processed: number, total: number, filePath: string) => void;
+    isCancelled?: () => boolean;
+}
+
+export interface ReviewerCandidate {
+    author: string;
+    email: string;
+    // Pre-change lines of theirs that the change modifies or deletes
+    lines: number;
+    files: number;
+    // Share of all affected lines, including the excluded authors'
+    percentage: number;
+    newestTimestamp: number;
+}
+
+export interface ReviewerSuggestions {
+    revision: string;
+    changedFiles: number;
+    affectedLines: number;
+    reviewers: ReviewerCandidate[];
+    cancelled: boolean;
+}
+
+export class ReviewerSuggester {
+    constructor(
+        private gitRunner: GitRunner,
+        private blameParser: BlameParser,
+        private metricsCalculator: MetricsCalculator
+    ) {}
+
+    async suggest(repoRoot: string, source: ChangeSource, options: ReviewerOptions): Promise<ReviewerSuggestions> {
+        const changedFiles = await this.gitRunner.getChangedLines(repoRoot, source);
+        const perFile: ContributorMetrics[][] = [];
+        const fileCounts = new Map<string, number>();
+        let cancelled = false;
+
+        for (let i = 0; i < changedFiles.length; i++) {
+            if (options.isCancelled && options.isCancelled()) {
+                cancelled = true;
+                break;
+            }
+
+            const file = changedFiles[i];
+            if (options.onProgress) {
+                options.onProgress(i, changedFiles.length, file.path);
+            }
+
+            try {
+                const blameData = await this.blameParser.getBlameDataAtRevision(
+                    path.join(repoRoot, file.path),
+                    file.revision,
+                    this.gitRunner,
+                    { ...options.blameOptions, lineRanges: file.ranges }
+                );
+                // Excluded authors (bots) and excluded lines drop out here
+                const contributors = this.metricsCalculator.calculateContributions(blameData);
+                perFile.push(contributors);
+                for (const contributor of contributors) {
+                    const key = identityKey(contributor.author, contributor.email);
+                    fileCounts.set(key, (fileCounts.get(key) || 0) + 1);
+                }
+            } catch (error) {
+                // e.g. a submodule pointer: there are no lines to blame
+                console.error(`Error blaming ${file.path} at ${file.revision}:`, error);
+            }
+        }
+
+        const combined = this.metricsCalculator.combineContributions(perFile);
+        const affectedLines = combined.reduce((sum, contributor) => sum + contributor.lines, 0);
+        const excluded = new Set(options.excludeEmails.map(email => email.toLowerCase()));
+
+        // Ranked by affected lines whatever the count mode: that is what a reviewer has to read
+        const reviewers = combined
+            .filter(contributor => contributor.author !== UNCOMMITTED_AUTHOR && !excluded.has(contributor.email.toLowerCase()))
+            .map(contributor => ({
+                author: contributor.author,
+                email: contributor.email,
+                lines: contributor.lines,
+                files: fileCounts.get(identityKey(contributor.author, contributor.email)) || 0,
+                percentage: affectedLines > 0 ? Math.round((contributor.lines / affectedLines) * 100) : 0,
+                newestTimestamp: contributor.newestTimestamp
+            }))
+            .sort((a, b) => b.lines - a.lines || b.files - a.files);
+
+        return {
+            revision: changedFiles.length > 0 ? changedFiles[0].revision : '',
+            changedFiles: changedFiles.length,
+            affectedLines,
+            reviewers,
+            cancelled
+        };
+    }
+}
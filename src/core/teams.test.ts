@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { ContributorMetrics, DEFAULT_METRICS_OPTIONS, MetricsCalculator } from './metrics';
+import { TeamMapping, UNASSIGNED_TEAM } from './teams';
+import { IdentityResolver, UNCOMMITTED_AUTHOR } from './identity';
+
+function contributor(author: string, email: string, lines: number): ContributorMetrics {
+    return { author, email, lines, characters: 0, weightedLines: 0, coAuthoredLines: 0, percentage: 0, newestTimestamp: 0, oldestTimestamp: 0 };
+}
+
+describe('TeamMapping', () => {
+    test('parses teams with exact and wildcard members', () => {
+        const teams = new TeamMapping(TeamMapping.parse(JSON.stringify({
+            teams: { Platform: ['alice@example.com', '*@infra.example.com'], Web: ['Bob@Example.com'] }
+        })));
+
+        expect(teams.getTeamNames()).toEqual(['Platform', 'Web']);
+        expect(teams.getTeam('ALICE@example.com')).toBe('Platform');
+        expect(teams.getTeam('carol@infra.example.com')).toBe('Platform');
+        expect(teams.getTeam('bob@example.com')).toBe('Web');
+        expect(teams.getTeam('dave@example.com')).toBe(UNASSIGNED_TEAM);
+        expect(teams.getTeam('')).toBe(UNASSIGNED_TEAM);
+    });
+
+    test('rejects files that are not a teams object of member lists', () => {
+        expect(() => TeamMapping.parse('teams:\n  Web:\n  - bob@example.com')).toThrow('Invalid .gitflex-teams.json');
+        expect(() => TeamMapping.parse('{ "teams": ["Web"] }')).toThrow('expected a "teams" object');
+        expect(() => TeamMapping.parse('null')).toThrow('expected a "teams" object');
+        expect(() => TeamMapping.parse('{ "teams": { "Web": "bob@example.com" } }')).toThrow('members of Web');
+        expect(() => TeamMapping.parse('{ "teams": { "Web": [42] } }')).toThrow('members of Web');
+    });
+
+    test('aggregates contributors per team and keeps uncommitted lines apart', () => {
+        const teams = new TeamMapping([{ name: 'Web', members: ['bob@example.com', 'carol@example.com'] }]);
+        const aggregated = teams.aggregate([
+            contributor('Bob', 'bob@example.com', 5),
+            contributor('Carol', 'carol@example.com', 3),
+            contributor('Dave', 'dave@example.com', 1),
+            contributor(UNCOMMITTED_AUTHOR, '', 1)
+        ], new MetricsCalculator(DEFAULT_METRICS_OPTIONS));
+
+        expect(aggregated.map(team => [team.author, team.lines, team.percentage])).toEqual([
+            ['Web', 8, 80],
+            [UNASSIGNED_TEAM, 1, 10],
+            [UNCOMMITTED_AUTHOR, 1, 10]
+        ]);
+    });
+
+    test('matches members listed under another email of an alias group', () => {
+        const resolver = new IdentityResolver([{ name: 'Alice', emails: ['alice@example.com', 'alice@home.example.org'] }]);
+        const teams = new TeamMapping(TeamMapping.parse('{ "teams": { "Platform": ["alice@home.example.org"] } }'), '', resolver);
+
+        expect(teams.getTeam(resolver.resolve('Alice', 'alice@home.example.org').email)).toBe('Platform');
+        expect(teams.getTeam('alice@example.com')).toBe('Platform');
+        expect(teams.getTeam('bob@example.com')).toBe(UNASSIGNED_TEAM);
+    });
+});
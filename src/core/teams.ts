@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IdentityResolver, UNCOMMITTED_AUTHOR } from './identity';
+import { ContributorMetrics, MetricsCalculator } from './metrics';
+
+// Looked up in the repository root
+export const TEAMS_FILE_NAME = '.gitflex-teams.json';
+
+export const UNASSIGNED_TEAM = 'Unassigned';
+
+export interface TeamDefinition {
+    name: string;
+    // Emails, or globs like *@infra.example.com; matched case-insensitively
+    members: string[];
+}
+
+interface CompiledTeam {
+    name: string;
+    patterns: RegExp[];
+}
+
+export class TeamMapping {
+    private teams: CompiledTeam[];
+
+    // Contributor emails are already resolved to the first email of their alias group,
+    // so members listed under another email of the group are matched through the resolver
+    constructor(
+        teams: TeamDefinition[],
+        public readonly source: string = '',
+        private identityResolver: IdentityResolver = new IdentityResolver()
+    ) {
+        this.teams = teams.map(team => ({
+            name: team.name,
+            patterns: team.members.map(member => this.compileMember(member))
+        }));
+    }
+
+    // Undefined when the repository has no teams file
+    static async load(repoRoot: string, identityResolver?: IdentityResolver): Promise<TeamMapping | undefined> {
+        const filePath = path.join(repoRoot, TEAMS_FILE_NAME);
+        let text: string;
+        try {
+            text = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+        return new TeamMapping(TeamMapping.parse(text), filePath, identityResolver);
+    }
+
+    // { "teams": { "Platform": ["alice@example.com", "*@infra.example.com"] } }
+    static parse(text: string): TeamDefinition[] {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Invalid ${TEAMS_FILE_NAME}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        const teams = TeamMapping.isObject(data) ? data.teams : undefined;
+        if (!TeamMapping.isObject(teams)) {
+            throw new Error(`Invalid ${TEAMS_FILE_NAME}: expected a "teams" object mapping team names to member lists`);
+        }
+        return Object.keys(teams).map(name => {
+            const members = teams[name];
+            if (!Array.isArray(members) || members.some(member => typeof member !== 'string')) {
+                throw new Error(`Invalid ${TEAMS_FILE_NAME}: members of ${name} must be a list of emails or patterns`);
+            }
+            return { name, members: members as string[] };
+        });
+    }
+
+    private static isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    getTeamNames(): string[] {
+        return this.teams.map(team => team.name);
+    }
+
+    getTeam(email: string): string {
+        const emails = email.trim() ? this.identityResolver.getEmails(email) : [];
+        const team = this.teams.find(t => t.patterns.some(pattern => emails.some(e => pattern.test(e))));
+        return team ? team.name : UNASSIGNED_TEAM;
+    }
+
+    // One entry per team (author is the team name), percentages of the same total as the input.
+    // Uncommitted lines keep their own entry: they belong to whoever is editing.
+    aggregate(contributors: ContributorMetrics[], metricsCalculator: MetricsCalculator): ContributorMetrics[] {
+        return metricsCalculator.combineContributions([contributors.map(contributor => ({
+            ...contributor,
+            author: this.getTeamOf(contributor),
+            email: ''
+        }))]);
+    }
+
+    getMembers(team: string, contributors: ContributorMetrics[]): ContributorMetrics[] {
+        return contributors.filter(contributor => this.getTeamOf(contributor) === team);
+    }
+
+    private getTeamOf(contributor: ContributorMetrics): string {
+        return contributor.author === UNCOMMITTED_AUTHOR ? UNCOMMITTED_AUTHOR : this.getTeam(contributor.email);
+    }
+
+    private compileMember(member: string): RegExp {
+        const escaped = member.trim().toLowerCase().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+        return new RegExp(`^${escaped}$`);
+    }
+}
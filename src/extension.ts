@@ -1,43 +1,249 @@
 import * as vscode from 'vscode';
-import { GitRunner } from './gitRunner';
-import { BlameParser } from './blameParser';
-import { MetricsCalculator } from './metrics';
-import { ContributorCache } from './cache';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import {
+    AnalysisOptions,
+    AuthorAlias,
+    BlameLineData,
+    ChangeSource,
+    CODEOWNERS_LOCATIONS,
+    CodeOwners,
+    CodeOwnersComparison,
+    BlameParser,
+    CoAuthorCredit,
+    CommitContribution,
+    ContributorAnalyzer,
+    ContributorCache,
+    ContributorMetrics,
+    ContributorReport,
+    CountMode,
+    ExportFormat,
+    ExportScope,
+    FolderAnalyzer,
+    FolderOwnership,
+    GitRunner,
+    GitRunnerOptions,
+    GlobMatcher,
+    IdentityResolver,
+    KnowledgeRisk,
+    KnowledgeRiskAnalyzer,
+    LineEdit,
+    LineRange,
+    LineTracker,
+    MetricsCalculator,
+    MetricsOptions,
+    MoveDetection,
+    OwnershipExport,
+    OwnerHandles,
+    OwnershipExporter,
+    OwnershipHistory,
+    PathRisk,
+    PersistentCache,
+    RepositoryInfo,
+    ReviewerCandidate,
+    ReviewerSuggester,
+    RiskOptions,
+    TEAMS_FILE_NAME,
+    TeamMapping,
+    UNCOMMITTED_HASH,
+    findAuthorHunks,
+    formatCodeOwnersSuggestions,
+    identityKey,
+    monthsSince,
+    suggestCodeOwners
+} from './core';
+import { AuthorHeatmap } from './heatmap';
+import { BlameHoverProvider } from './blameHover';
+import { ContributorNode, ContributorsTreeProvider } from './contributorsTree';
+import { ContributorsChartView } from './contributorsChartView';
+import { OwnershipHistoryView } from './historyView';
+import { REVISION_SCHEME, RevisionContentProvider } from './revisionContentProvider';
+
+interface ContributorPickItem extends vscode.QuickPickItem {
+    identity: string;
+}
+
+interface CommitPickItem extends vscode.QuickPickItem {
+    // Undefined for the navigation entries above the commits
+    contribution?: CommitContribution;
+    action?: 'firstHunk' | 'selectAll';
+}
+
+interface DirectoryPickItem extends vscode.QuickPickItem {
+    directory: string;
+}
+
+interface RiskPickItem extends vscode.QuickPickItem {
+    pathRisk: PathRisk;
+}
+
+interface TeamPickItem extends vscode.QuickPickItem {
+    team: string;
+}
+
+interface ChangeSourcePickItem extends vscode.QuickPickItem {
+    source: ChangeSource['kind'];
+}
+
+interface ReviewerPickItem extends vscode.QuickPickItem {
+    reviewer: ReviewerCandidate;
+}
+
+interface ExportScopePickItem extends vscode.QuickPickItem {
+    scope: ExportScope;
+}
+
+interface ExportFormatPickItem extends vscode.QuickPickItem {
+    format: ExportFormat;
+}
 
 let statusBarItem: vscode.StatusBarItem;
 let gitRunner: GitRunner;
 let blameParser: BlameParser;
 let metricsCalculator: MetricsCalculator;
+let analyzer: ContributorAnalyzer;
 let cache: ContributorCache;
+let persistentCache: PersistentCache;
+let settingsFingerprint: string;
+let folderAnalyzer: FolderAnalyzer;
+let ownershipHistory: OwnershipHistory;
+let riskAnalyzer: KnowledgeRiskAnalyzer;
+let ownershipExporter: OwnershipExporter;
+let reviewerSuggester: ReviewerSuggester;
+let heatmap: AuthorHeatmap;
+let contributorsTree: ContributorsTreeProvider;
+let contributorsTreeView: vscode.TreeView<ContributorNode>;
+let contributorsChart: ContributorsChartView;
 let debounceTimer: NodeJS.Timeout | undefined;
+let liveUpdateTimer: NodeJS.Timeout | undefined;
+let reblameTimer: NodeJS.Timeout | undefined;
+let liveBlame: { uri: string; tracker: LineTracker } | undefined;
+// Blame for hovers over documents without live blame, one per document version
+let hoverBlame: { uri: string; version: number; blameData: Promise<BlameLineData[] | undefined> } | undefined;
+// Teams files per repository root, reloaded when one changes
+const teamMappings = new Map<string, Promise<TeamMapping | undefined>>();
+// CODEOWNERS files per repository root, reloaded when one changes
+const codeOwnersFiles = new Map<string, Promise<CodeOwners | undefined>>();
+let teamView = false;
+// At most one in-flight request per kind; starting another makes the previous one stale
+const pendingRequests = new Map<string, AbortController>();
+
+// How long typing has to pause before the live numbers are re-checked with git blame
+const IDLE_REBLAME_DELAY = 3000;
 
 export function activate(context: vscode.ExtensionContext) {
     // Initialize components
-    gitRunner = new GitRunner();
-    blameParser = new BlameParser();
-    metricsCalculator = new MetricsCalculator();
+    gitRunner = new GitRunner(readGitRunnerOptions());
+    blameParser = new BlameParser(createIdentityResolver());
+    metricsCalculator = new MetricsCalculator(readMetricsOptions());
+    warnAboutInvalidPatterns();
+    analyzer = new ContributorAnalyzer(gitRunner, blameParser, metricsCalculator, readAnalysisOptions());
     cache = new ContributorCache();
+    persistentCache = new PersistentCache(
+        path.join(context.globalStorageUri.fsPath, 'contributors-cache.json'),
+        getPersistentCacheMaxBytes()
+    );
+    settingsFingerprint = computeSettingsFingerprint();
+    folderAnalyzer = new FolderAnalyzer(gitRunner, blameParser, metricsCalculator);
+    ownershipHistory = new OwnershipHistory(gitRunner, blameParser, metricsCalculator);
+    riskAnalyzer = new KnowledgeRiskAnalyzer(gitRunner, metricsCalculator, createIdentityResolver());
+    ownershipExporter = new OwnershipExporter(metricsCalculator);
+    reviewerSuggester = new ReviewerSuggester(gitRunner, blameParser, metricsCalculator);
+    heatmap = new AuthorHeatmap();
+    heatmap.setStyle(vscode.workspace.getConfiguration('gitFlex').get<string>('heatmapStyle', 'gutter'));
+    contributorsTree = new ContributorsTreeProvider(metricsCalculator, heatmap);
+    contributorsTreeView = vscode.window.createTreeView('gitFlex.contributors', { treeDataProvider: contributorsTree });
+    contributorsChart = new ContributorsChartView(metricsCalculator);
 
     // Create status bar item
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 10000);
-    statusBarItem.command = 'gitFlex.showContributors';
+    statusBarItem.command = getStatusBarScope() === 'selection' ? 'gitFlex.showSelectionContributors' : 'gitFlex.showContributors';
     statusBarItem.text = '$(flame)  — —%';
     statusBarItem.tooltip = 'Click to see all contributors';
     statusBarItem.show();
 
-    // Register command
+    // Register commands
     const showContributorsCommand = vscode.commands.registerCommand('gitFlex.showContributors', showContributors);
+    const showSelectionContributorsCommand = vscode.commands.registerCommand('gitFlex.showSelectionContributors', showSelectionContributors);
+    const analyzeFolderOwnershipCommand = vscode.commands.registerCommand('gitFlex.analyzeFolderOwnership', analyzeFolderOwnership);
+    const toggleHeatmapCommand = vscode.commands.registerCommand('gitFlex.toggleHeatmap', toggleHeatmap);
+    const toggleTeamViewCommand = vscode.commands.registerCommand('gitFlex.toggleTeamView', toggleTeamView);
+    const showOwnershipHistoryCommand = vscode.commands.registerCommand('gitFlex.showOwnershipHistory', showOwnershipHistory);
+    const showCacheStatsCommand = vscode.commands.registerCommand('gitFlex.showCacheStats', showCacheStats);
+    const clearCacheCommand = vscode.commands.registerCommand('gitFlex.clearCache', clearCache);
+    const nextAuthorHunkCommand = vscode.commands.registerCommand('gitFlex.nextAuthorHunk', () => navigateAuthorHunk(1));
+    const previousAuthorHunkCommand = vscode.commands.registerCommand('gitFlex.previousAuthorHunk', () => navigateAuthorHunk(-1));
+    const selectAuthorLinesCommand = vscode.commands.registerCommand('gitFlex.selectAuthorLines', selectAuthorLines);
+    const showRiskiestPathsCommand = vscode.commands.registerCommand('gitFlex.showRiskiestPaths', showRiskiestPaths);
+    const exportContributorsReportCommand = vscode.commands.registerCommand('gitFlex.exportContributorsReport', exportContributorsReport);
+    const proposeCodeOwnersCommand = vscode.commands.registerCommand('gitFlex.proposeCodeOwners', proposeCodeOwners);
+    const suggestReviewersCommand = vscode.commands.registerCommand('gitFlex.suggestReviewers', suggestReviewers);
+    // Used by the contributors view's commit entries
+    const openCommitDiffCommand = vscode.commands.registerCommand('gitFlex.openCommitDiff', openCommitDiffFor);
+    const contributorsChartProvider = vscode.window.registerWebviewViewProvider('gitFlex.contributorsChart', contributorsChart);
+    const blameHoverProvider = vscode.languages.registerHoverProvider({ scheme: 'file' }, new BlameHoverProvider(metricsCalculator, getHoverBlameData));
 
     // Register event listeners
+    const revisionContentProvider = vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, new RevisionContentProvider(gitRunner));
+
     const onDidChangeActiveTextEditor = vscode.window.onDidChangeActiveTextEditor(handleEditorChange);
+    const onDidChangeTextEditorSelection = vscode.window.onDidChangeTextEditorSelection(handleSelectionChange);
+    const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument(handleDocumentChange);
     const onDidSaveTextDocument = vscode.workspace.onDidSaveTextDocument(handleDocumentSave);
+    const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(handleConfigurationChange);
+
+    // Repository roots are memoized per directory; forget them when repositories or folders come and go
+    const repositoryWatcher = vscode.workspace.createFileSystemWatcher('**/.git', false, true, false);
+    const resetRepositories = () => gitRunner.clearRepositoryCache();
+    repositoryWatcher.onDidCreate(resetRepositories);
+    repositoryWatcher.onDidDelete(resetRepositories);
+    const onDidChangeWorkspaceFolders = vscode.workspace.onDidChangeWorkspaceFolders(resetRepositories);
+
+    const teamsWatcher = vscode.workspace.createFileSystemWatcher(`**/${TEAMS_FILE_NAME}`);
+    teamsWatcher.onDidCreate(reloadTeams);
+    teamsWatcher.onDidChange(reloadTeams);
+    teamsWatcher.onDidDelete(reloadTeams);
+
+    const codeOwnersWatcher = vscode.workspace.createFileSystemWatcher('**/CODEOWNERS');
+    codeOwnersWatcher.onDidCreate(reloadCodeOwners);
+    codeOwnersWatcher.onDidChange(reloadCodeOwners);
+    codeOwnersWatcher.onDidDelete(reloadCodeOwners);
 
     // Add to context subscriptions
     context.subscriptions.push(
         statusBarItem,
+        heatmap,
         showContributorsCommand,
+        showSelectionContributorsCommand,
+        analyzeFolderOwnershipCommand,
+        toggleHeatmapCommand,
+        toggleTeamViewCommand,
+        showOwnershipHistoryCommand,
+        showCacheStatsCommand,
+        clearCacheCommand,
+        nextAuthorHunkCommand,
+        previousAuthorHunkCommand,
+        selectAuthorLinesCommand,
+        showRiskiestPathsCommand,
+        exportContributorsReportCommand,
+        proposeCodeOwnersCommand,
+        suggestReviewersCommand,
+        openCommitDiffCommand,
+        contributorsTree,
+        contributorsTreeView,
+        contributorsChartProvider,
+        blameHoverProvider,
+        revisionContentProvider,
         onDidChangeActiveTextEditor,
-        onDidSaveTextDocument
+        onDidChangeTextEditorSelection,
+        onDidChangeTextDocument,
+        onDidSaveTextDocument,
+        onDidChangeConfiguration,
+        repositoryWatcher,
+        onDidChangeWorkspaceFolders,
+        teamsWatcher,
+        codeOwnersWatcher
     );
 
     // Process current active editor
@@ -50,6 +256,15 @@ export function deactivate() {
     if (debounceTimer) {
         clearTimeout(debounceTimer);
     }
+    if (liveUpdateTimer) {
+        clearTimeout(liveUpdateTimer);
+    }
+    if (reblameTimer) {
+        clearTimeout(reblameTimer);
+    }
+    pendingRequests.forEach(controller => controller.abort());
+    pendingRequests.clear();
+    persistentCache.flush();
 }
 
 function handleEditorChange(editor: vscode.TextEditor | undefined) {
@@ -59,27 +274,443 @@ function handleEditorChange(editor: vscode.TextEditor | undefined) {
 
     debounceTimer = setTimeout(() => {
         if (editor) {
-            updateContributors(editor);
+            refreshEditor(editor);
         } else {
             statusBarItem.text = '$(flame)  — —%';
             statusBarItem.tooltip = 'No active file';
+            clearContributorsViews('Open a file to see its contributors');
         }
     }, 300);
 }
 
+// With the heatmap on, its live blame also feeds the status bar, so the file is blamed once
+async function refreshEditor(editor: vscode.TextEditor) {
+    await refreshHeatmap(editor);
+    await updateContributors(editor);
+}
+
+function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent) {
+    if (getStatusBarScope() !== 'selection' || event.textEditor !== vscode.window.activeTextEditor) {
+        return;
+    }
+    handleEditorChange(event.textEditor);
+}
+
+function getStatusBarScope(): string {
+    return vscode.workspace.getConfiguration('gitFlex').get<string>('statusBarScope', 'file');
+}
+
+// Selected line ranges (1-based, inclusive), merged; empty when nothing is selected
+function getSelectionRanges(editor: vscode.TextEditor): LineRange[] {
+    const ranges: LineRange[] = editor.selections
+        .filter(selection => !selection.isEmpty)
+        .map(selection => {
+            // A selection ending at column 0 doesn't really include that line
+            const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+                ? selection.end.line - 1
+                : selection.end.line;
+            return { start: selection.start.line + 1, end: endLine + 1 };
+        })
+        .sort((a, b) => a.start - b.start);
+
+    const merged: LineRange[] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
+
+function createIdentityResolver(): IdentityResolver {
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    return new IdentityResolver(config.get<AuthorAlias[]>('authorAliases', []));
+}
+
+function readMetricsOptions(): MetricsOptions {
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    return {
+        countMode: config.get<CountMode>('countMode', 'lines'),
+        ignoreBlankLines: config.get<boolean>('ignoreBlankLines', false),
+        recencyHalfLifeDays: config.get<number>('recencyHalfLifeDays', 180),
+        coAuthorCredit: config.get<CoAuthorCredit>('coAuthorCredit', 'off'),
+        coAuthorShare: config.get<number>('coAuthorShare', 0.5),
+        excludeAuthors: config.get<string[]>('excludeAuthors', []),
+        excludeLines: config.get<string[]>('excludeLines', [])
+    };
+}
+
+// Invalid exclusion regexes are left out of the numbers rather than failing every report
+function warnAboutInvalidPatterns() {
+    for (const invalid of metricsCalculator.getInvalidPatterns()) {
+        vscode.window.showWarningMessage(`gitFlex.${invalid.option}: "${invalid.pattern}" is not a valid regular expression and is ignored (${invalid.message})`);
+    }
+}
+
+// Anything that changes the computed numbers must be part of the persistent cache key:
+// everything readMetricsOptions, readAnalysisOptions and createIdentityResolver read
+const FINGERPRINT_SETTINGS = [
+    'countMode',
+    'ignoreBlankLines',
+    'recencyHalfLifeDays',
+    'coAuthorCredit',
+    'coAuthorShare',
+    'excludeAuthors',
+    'excludeLines',
+    'ignoreRevisions',
+    'detectMoves',
+    'authorAliases'
+];
+
+function computeSettingsFingerprint(): string {
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    const relevant = {
+        ...Object.fromEntries(FINGERPRINT_SETTINGS.map(setting => [setting, config.get(setting)])),
+        // The resolved values too, so a changed default also changes the key
+        metrics: readMetricsOptions(),
+        analysis: readAnalysisOptions()
+    };
+    return crypto.createHash('md5').update(JSON.stringify(relevant)).digest('hex').substring(0, 12);
+}
+
+function getPersistentCacheMaxBytes(): number {
+    const maxSizeMB = vscode.workspace.getConfiguration('gitFlex').get<number>('persistentCacheMaxSizeMB', 20);
+    return Math.max(0, maxSizeMB) * 1024 * 1024;
+}
+
+function readAnalysisOptions(): AnalysisOptions {
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    return {
+        ignoreRevisions: config.get<string[]>('ignoreRevisions', []),
+        detectMoves: config.get<MoveDetection>('detectMoves', 'off')
+    };
+}
+
+function readGitRunnerOptions(): GitRunnerOptions {
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    return {
+        timeoutMs: Math.max(1, config.get<number>('gitTimeoutSeconds', 5)) * 1000,
+        maxConcurrent: Math.max(1, Math.floor(config.get<number>('maxGitProcesses', 4)))
+    };
+}
+
+function startRequest(kind: string): AbortSignal {
+    const previous = pendingRequests.get(kind);
+    if (previous) {
+        previous.abort();
+    }
+    const controller = new AbortController();
+    pendingRequests.set(kind, controller);
+    return controller.signal;
+}
+
+function isExcludedFile(repoRelativePath: string): boolean {
+    const patterns = vscode.workspace.getConfiguration('gitFlex').get<string[]>('excludeFiles', []);
+    return new GlobMatcher(patterns).matches(repoRelativePath);
+}
+
+function readRiskOptions(): RiskOptions {
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    return {
+        busFactorThreshold: config.get<number>('busFactorThreshold', 0.5),
+        staleOwnerMonths: config.get<number>('staleOwnerMonths', 6)
+    };
+}
+
+function handleConfigurationChange(event: vscode.ConfigurationChangeEvent) {
+    if (!event.affectsConfiguration('gitFlex')) {
+        return;
+    }
+
+    // Cached metrics were computed with the previous settings
+    gitRunner.setOptions(readGitRunnerOptions());
+    blameParser.setIdentityResolver(createIdentityResolver());
+    riskAnalyzer.setIdentityResolver(createIdentityResolver());
+    if (event.affectsConfiguration('gitFlex.authorAliases')) {
+        teamMappings.clear();
+    }
+    metricsCalculator.setOptions(readMetricsOptions());
+    if (event.affectsConfiguration('gitFlex.excludeAuthors') || event.affectsConfiguration('gitFlex.excludeLines')) {
+        warnAboutInvalidPatterns();
+    }
+    analyzer.setOptions(readAnalysisOptions());
+    cache.clear();
+    settingsFingerprint = computeSettingsFingerprint();
+    persistentCache.setMaxSize(getPersistentCacheMaxBytes());
+    heatmap.setStyle(vscode.workspace.getConfiguration('gitFlex').get<string>('heatmapStyle', 'gutter'));
+    liveBlame = undefined;
+    hoverBlame = undefined;
+    statusBarItem.command = getStatusBarScope() === 'selection' ? 'gitFlex.showSelectionContributors' : 'gitFlex.showContributors';
+
+    if (vscode.window.activeTextEditor) {
+        refreshEditor(vscode.window.activeTextEditor);
+    }
+}
+
+function handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor || activeEditor.document !== event.document || event.contentChanges.length === 0) {
+        return;
+    }
+
+    const uri = event.document.uri.toString();
+    if (liveBlame && liveBlame.uri === uri) {
+        applyContentChanges(liveBlame.tracker, event);
+
+        if (liveUpdateTimer) {
+            clearTimeout(liveUpdateTimer);
+        }
+        liveUpdateTimer = setTimeout(() => updateLiveAttribution(activeEditor), 100);
+        scheduleReblame(activeEditor, IDLE_REBLAME_DELAY);
+    } else {
+        // Nothing to shift yet: blame once, then follow edits incrementally
+        scheduleReblame(activeEditor, 300);
+    }
+}
+
+function applyContentChanges(tracker: LineTracker, event: vscode.TextDocumentChangeEvent) {
+    // Ranges refer to the document before the event; line deltas of the changes
+    // above each one tell where its new lines ended up
+    const changes = [...event.contentChanges].sort((a, b) => a.range.start.line - b.range.start.line);
+    const edits: LineEdit[] = [];
+    let lineDelta = 0;
+
+    for (const change of changes) {
+        const startLine = change.range.start.line;
+        const endLine = change.range.end.line;
+        const newLineCount = change.text.split(/\r\n|\r|\n/).length;
+        const newLines: string[] = [];
+        for (let i = 0; i < newLineCount; i++) {
+            const line = startLine + lineDelta + i;
+            newLines.push(line < event.document.lineCount ? event.document.lineAt(line).text : '');
+        }
+        edits.push({ startLine, endLine, newLines });
+        lineDelta += newLineCount - (endLine - startLine + 1);
+    }
+
+    // Bottom-up, so earlier line numbers stay valid while splicing
+    for (let i = edits.length - 1; i >= 0; i--) {
+        tracker.applyEdit(edits[i]);
+    }
+    tracker.version = event.document.version;
+}
+
+function scheduleReblame(editor: vscode.TextEditor, delay: number) {
+    if (reblameTimer) {
+        clearTimeout(reblameTimer);
+    }
+    reblameTimer = setTimeout(async () => {
+        reblameTimer = undefined;
+        if (editor !== vscode.window.activeTextEditor) {
+            return;
+        }
+        if (await refreshLiveBlame(editor)) {
+            updateLiveAttribution(editor);
+        }
+    }, delay);
+}
+
+function getLiveTracker(document: vscode.TextDocument): LineTracker | undefined {
+    if (liveBlame && liveBlame.uri === document.uri.toString() && liveBlame.tracker.version === document.version) {
+        return liveBlame.tracker;
+    }
+    return undefined;
+}
+
+async function refreshLiveBlame(editor: vscode.TextEditor): Promise<LineTracker | undefined> {
+    const signal = startRequest('liveBlame');
+    try {
+        const document = editor.document;
+        const version = document.version;
+        const filePath = document.uri.fsPath;
+        const fileContent = document.getText();
+
+        const maxSizeKB = vscode.workspace.getConfiguration('gitFlex').get<number>('maxFileSizeKB', 2048);
+        if (document.uri.scheme !== 'file' || Buffer.byteLength(fileContent, 'utf8') / 1024 > maxSizeKB) {
+            return undefined;
+        }
+        if (!await gitRunner.isInGitRepository(filePath)) {
+            return undefined;
+        }
+        // Leave the "ignored" and "excluded" status bar messages alone
+        if (await gitRunner.isFileIgnored(filePath, signal) || isExcludedFile((await gitRunner.locate(filePath)).relativePath)) {
+            return undefined;
+        }
+
+        const { blameData, report } = await analyzer.analyzeBlame(filePath, fileContent, [], signal, document.languageId);
+
+        // Edits arrived while blaming; the change handler already scheduled another pass
+        if (signal.aborted || document.version !== version) {
+            return undefined;
+        }
+
+        const tracker = new LineTracker(blameData, document.lineCount, version, {
+            ignoreRevsApplied: report.ignoreRevsApplied,
+            movedLines: report.movedLines
+        });
+        liveBlame = { uri: document.uri.toString(), tracker };
+        return tracker;
+    } catch (error) {
+        if (!signal.aborted) {
+            console.error('Error refreshing live blame:', error);
+        }
+        return undefined;
+    }
+}
+
+// Status bar and heatmap straight from the tracked lines, no git involved
+function updateLiveAttribution(editor: vscode.TextEditor) {
+    const tracker = getLiveTracker(editor.document);
+    if (!tracker || editor !== vscode.window.activeTextEditor) {
+        return;
+    }
+
+    // Takes the status bar over from any contributors request still running
+    const signal = startRequest('contributors');
+    const blameData = tracker.getBlameData();
+    const lineRanges = getStatusBarScope() === 'selection' ? getSelectionRanges(editor) : [];
+    showReport(editor, analyzer.createReport(filterToRanges(blameData, lineRanges), tracker.adjustments, editor.document.languageId), lineRanges, signal);
+    heatmap.apply(editor, blameData);
+}
+
+function filterToRanges(blameData: BlameLineData[], lineRanges: LineRange[]): BlameLineData[] {
+    if (lineRanges.length === 0) {
+        return blameData;
+    }
+    return blameData.filter(line => lineRanges.some(range => line.lineNumber >= range.start && line.lineNumber <= range.end));
+}
+
 function handleDocumentSave(document: vscode.TextDocument) {
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor && activeEditor.document === document) {
         // Clear cache for this file and update
         cache.invalidate(document.uri.fsPath);
-        updateContributors(activeEditor);
+        hoverBlame = undefined;
+        if (heatmap.isEnabled() || (liveBlame && liveBlame.uri === document.uri.toString())) {
+            scheduleReblame(activeEditor, 0);
+        } else {
+            updateContributors(activeEditor);
+        }
+    }
+}
+
+async function toggleHeatmap() {
+    heatmap.setEnabled(!heatmap.isEnabled());
+
+    if (heatmap.isEnabled() && vscode.window.activeTextEditor) {
+        await refreshHeatmap(vscode.window.activeTextEditor);
+    }
+}
+
+async function toggleTeamView() {
+    teamView = !teamView;
+    await vscode.commands.executeCommand('setContext', 'gitFlex.teamViewEnabled', teamView);
+
+    if (vscode.window.activeTextEditor) {
+        await updateContributors(vscode.window.activeTextEditor);
+    }
+}
+
+function reloadTeams() {
+    teamMappings.clear();
+    if (teamView && vscode.window.activeTextEditor) {
+        updateContributors(vscode.window.activeTextEditor);
+    }
+}
+
+function reloadCodeOwners() {
+    codeOwnersFiles.clear();
+    if (vscode.window.activeTextEditor) {
+        updateContributors(vscode.window.activeTextEditor);
+    }
+}
+
+// Undefined when the file's repository has no teams file or it cannot be read
+function getTeamMapping(filePath: string): Promise<TeamMapping | undefined> {
+    return loadRepositoryFile(teamMappings, filePath, root => TeamMapping.load(root, createIdentityResolver()), 'teams file');
+}
+
+function getCodeOwners(filePath: string): Promise<CodeOwners | undefined> {
+    return loadRepositoryFile(codeOwnersFiles, filePath, root => CodeOwners.load(root), 'CODEOWNERS');
+}
+
+// Loaded once per repository root; a broken file is reported once and then treated as missing
+async function loadRepositoryFile<T>(
+    loaded: Map<string, Promise<T | undefined>>,
+    filePath: string,
+    load: (root: string) => Promise<T | undefined>,
+    description: string
+): Promise<T | undefined> {
+    const repository = await gitRunner.resolveRepository(filePath);
+    if (!repository) {
+        return undefined;
+    }
+
+    let file = loaded.get(repository.root);
+    if (!file) {
+        file = load(repository.root).catch(error => {
+            console.error(`Error loading ${description}:`, error);
+            vscode.window.showWarningMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return undefined;
+        });
+        loaded.set(repository.root, file);
+    }
+    return file;
+}
+
+async function compareWithCodeOwners(filePath: string, contributors: ContributorMetrics[]): Promise<CodeOwnersComparison | undefined> {
+    const codeOwners = await getCodeOwners(filePath);
+    if (!codeOwners) {
+        return undefined;
+    }
+    const { relativePath } = await gitRunner.locate(filePath);
+    return codeOwners.compare(relativePath, contributors, readCodeOwnersMinShare(), {
+        handles: readOwnerHandles(),
+        teams: await getTeamMapping(filePath)
+    });
+}
+
+function readCodeOwnersMinShare(): number {
+    return vscode.workspace.getConfiguration('gitFlex').get<number>('codeOwnersMinShare', 0.2);
+}
+
+function readOwnerHandles(): OwnerHandles {
+    return vscode.workspace.getConfiguration('gitFlex').get<OwnerHandles>('codeOwnerHandles', {});
+}
+
+async function refreshHeatmap(editor: vscode.TextEditor) {
+    if (!heatmap.isEnabled()) {
+        return;
+    }
+
+    const tracker = getLiveTracker(editor.document) || await refreshLiveBlame(editor);
+
+    // The heatmap may have been turned off while blaming
+    if (!heatmap.isEnabled() || editor !== vscode.window.activeTextEditor) {
+        return;
+    }
+    if (tracker) {
+        heatmap.apply(editor, tracker.getBlameData());
+    } else {
+        heatmap.clear();
     }
 }
 
 async function updateContributors(editor: vscode.TextEditor) {
+    const signal = startRequest('contributors');
     try {
         const filePath = editor.document.uri.fsPath;
         const fileContent = editor.document.getText();
+
+        // Untitled buffers, revision views and the like have no working-tree file to blame
+        if (editor.document.uri.scheme !== 'file') {
+            statusBarItem.hide();
+            clearContributorsViews('Open a file in a Git repository to see its contributors');
+            return;
+        }
         
         // Check file size limit
         const config = vscode.workspace.getConfiguration('gitFlex');
@@ -89,45 +720,163 @@ async function updateContributors(editor: vscode.TextEditor) {
         if (fileSizeKB > maxSizeKB) {
             statusBarItem.text = 'Top: File too large';
             statusBarItem.tooltip = `File size (${Math.round(fileSizeKB)}KB) exceeds limit (${maxSizeKB}KB)`;
+            clearContributorsViews(statusBarItem.tooltip);
             return;
         }
 
         // Check if file is in a git repository
-        const isInRepo = await gitRunner.isInGitRepository(filePath);
-        if (!isInRepo) {
+        const repository = await gitRunner.resolveRepository(filePath);
+        if (!repository || repository.kind === 'gitDir') {
             statusBarItem.hide();
+            clearContributorsViews('Open a file in a Git repository to see its contributors');
             return;
         }
-
-        // Check cache first
-        const cacheKey = await cache.getCacheKey(filePath, fileContent);
-        const cachedResult = cache.get(cacheKey);
-        
-        if (cachedResult) {
-            updateStatusBar(cachedResult);
+        if (repository.kind === 'bare') {
+            statusBarItem.show();
+            statusBarItem.text = '$(flame) Bare repository';
+            statusBarItem.tooltip = `${repository.root} is a bare repository: there is no working tree to attribute`;
+            clearContributorsViews(statusBarItem.tooltip);
+            return;
+        }
+        if (await gitRunner.isFileIgnored(filePath, signal)) {
+            if (signal.aborted) {
+                return;
+            }
+            statusBarItem.show();
+            statusBarItem.text = '$(flame) Ignored by Git';
+            statusBarItem.tooltip = `${path.basename(filePath)} is ignored in ${repository.root}, so it has no history to attribute`;
+            clearContributorsViews(statusBarItem.tooltip);
+            return;
+        }
+        const { relativePath } = await gitRunner.locate(filePath);
+        if (isExcludedFile(relativePath)) {
+            statusBarItem.show();
+            statusBarItem.text = '$(flame) Excluded';
+            statusBarItem.tooltip = `${relativePath} matches gitFlex.excludeFiles`;
+            clearContributorsViews(statusBarItem.tooltip);
             return;
         }
 
-        // Get blame data
-        const blameData = await blameParser.getBlameData(filePath, fileContent, gitRunner);
-        
-        // Calculate metrics
-        const contributors = metricsCalculator.calculateContributions(blameData);
-        
-        // Cache result
-        cache.set(cacheKey, contributors);
+        const lineRanges = getStatusBarScope() === 'selection' ? getSelectionRanges(editor) : [];
+        const tracker = getLiveTracker(editor.document);
+        const report = tracker
+            ? analyzer.createReport(filterToRanges(tracker.getBlameData(), lineRanges), tracker.adjustments, editor.document.languageId)
+            : await getReport(filePath, fileContent, lineRanges, editor.document.isDirty, editor.document.languageId, signal);
+
+        // A newer request or editor switch took over while git was running
+        if (signal.aborted || editor !== vscode.window.activeTextEditor) {
+            return;
+        }
         
         // Update UI
-        updateStatusBar(contributors);
+        await showReport(editor, report, lineRanges, signal);
         
     } catch (error) {
+        if (signal.aborted) {
+            return;
+        }
         console.error('Error updating contributors:', error);
         statusBarItem.text = 'Top: Error';
         statusBarItem.tooltip = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
 }
 
-function updateStatusBar(contributors: Array<{author: string, lines: number, percentage: number}>) {
+async function getReport(filePath: string, fileContent: string, lineRanges: LineRange[], isDirty: boolean, languageId: string, signal?: AbortSignal): Promise<ContributorReport> {
+    // Check cache first
+    // The language decides what counts as a comment in the 'code' count mode
+    const scopeKey = `${lineRanges.map(range => `${range.start}-${range.end}`).join(',') || 'file'}:${languageId}`;
+    const cacheKey = `${await cache.getCacheKey(filePath, fileContent)}:${scopeKey}`;
+    const cachedResult = cache.get(cacheKey);
+    
+    if (cachedResult) {
+        return cachedResult;
+    }
+
+    // Clean files can be served from disk until their HEAD commit or blob changes.
+    // Selections stay in memory: every distinct one would push whole-file reports out.
+    const usePersistentCache = !isDirty && lineRanges.length === 0 && getPersistentCacheMaxBytes() > 0;
+    const revisionKey = usePersistentCache ? await analyzer.getRevisionKey(filePath, signal) : undefined;
+    const persistentKey = revisionKey ? `${filePath}:${revisionKey}:${scopeKey}:${settingsFingerprint}` : undefined;
+    if (persistentKey) {
+        const persisted = await persistentCache.get(persistentKey);
+        if (persisted) {
+            cache.set(cacheKey, persisted);
+            return persisted;
+        }
+    }
+
+    // Get blame data and calculate metrics
+    const report = await analyzer.analyzeFile(filePath, fileContent, lineRanges, signal, languageId);
+    cache.set(cacheKey, report);
+    if (persistentKey) {
+        await persistentCache.set(persistentKey, report);
+    }
+    return report;
+}
+
+async function showCacheStats() {
+    const stats = await persistentCache.getStats();
+    const sizeKB = (stats.sizeBytes / 1024).toFixed(1);
+    const maxKB = (stats.maxSizeBytes / 1024).toFixed(0);
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+    const choice = await vscode.window.showInformationMessage(
+        `Git Flex cache: ${stats.entries} files on disk (${sizeKB} KB of ${maxKB} KB), ${cache.size()} in memory. ` +
+        `Hit rate this session: ${hitRate}% (${stats.hits}/${lookups}).`,
+        'Clear Cache'
+    );
+    if (choice === 'Clear Cache') {
+        await clearCache();
+    }
+}
+
+async function clearCache() {
+    cache.clear();
+    hoverBlame = undefined;
+    riskAnalyzer.clear();
+    gitRunner.clearRepositoryCache();
+    await persistentCache.clear();
+    await persistentCache.save();
+    vscode.window.showInformationMessage('Git Flex cache cleared');
+}
+
+// Risk needs a git lookup for the owner's activity, so it is assessed before the status bar changes
+// A newer request for the status bar aborts the signal; the older report is dropped then
+async function showReport(editor: vscode.TextEditor, report: ContributorReport, lineRanges: LineRange[], signal: AbortSignal) {
+    const filePath = editor.document.uri.fsPath;
+    let risk: KnowledgeRisk | undefined;
+    try {
+        risk = await riskAnalyzer.assess(filePath, report.contributors, readRiskOptions());
+    } catch (error) {
+        console.error('Error assessing knowledge risk:', error);
+    }
+    if (signal.aborted) {
+        return;
+    }
+    const repository = await gitRunner.resolveRepository(filePath);
+    if (signal.aborted) {
+        return;
+    }
+    const teams = teamView ? await getTeamMapping(filePath) : undefined;
+    if (signal.aborted) {
+        return;
+    }
+    let codeOwners: CodeOwnersComparison | undefined;
+    try {
+        codeOwners = await compareWithCodeOwners(filePath, report.contributors);
+    } catch (error) {
+        console.error('Error comparing with CODEOWNERS:', error);
+    }
+
+    if (!signal.aborted && editor === vscode.window.activeTextEditor) {
+        updateStatusBar(report, lineRanges, risk, repository, teams, codeOwners);
+        updateContributorsViews(editor, report, lineRanges);
+    }
+}
+
+function updateStatusBar(report: ContributorReport, lineRanges: LineRange[] = [], risk?: KnowledgeRisk, repository?: RepositoryInfo, teams?: TeamMapping, codeOwners?: CodeOwnersComparison) {
+    const contributors = teams ? teams.aggregate(report.contributors, metricsCalculator) : report.contributors;
     if (contributors.length === 0) {
         statusBarItem.show();
         statusBarItem.text = '$(flame)  — —%';
@@ -137,81 +886,981 @@ function updateStatusBar(contributors: Array<{author: string, lines: number, per
 
     const topContributor = contributors[0];
     statusBarItem.show();
-    statusBarItem.text = `$(flame) ${topContributor.author} ${topContributor.percentage}%`;
+    statusBarItem.text = `${teams ? '$(organization)' : '$(flame)'} ${topContributor.author} ${topContributor.percentage}%${risk && risk.atRisk ? ' $(warning)' : ''}${codeOwners && codeOwners.mismatch ? ' $(law)' : ''}`;
     
     // Create tooltip with top 3 contributors
-    const top3 = contributors.slice(0, 3);
-    const tooltipLines = top3.map(c => `${c.author}: ${c.percentage}% (${c.lines} lines)`);
-    const totalLines = contributors.reduce((sum, c) => sum + c.lines, 0);
-    tooltipLines.push(`Total: ${totalLines} lines`);
+    const tooltipLines = [metricsCalculator.formatContributorSummary(contributors, 3)];
+    if (teams) {
+        tooltipLines.push(`Teams from ${path.basename(teams.source)}`);
+    } else if (teamView) {
+        tooltipLines.push(`Team view: no ${TEAMS_FILE_NAME} in the repository root, showing individuals`);
+    }
+    if (lineRanges.length > 0) {
+        tooltipLines.push(`Selection: ${lineRanges.map(range => `${range.start}-${range.end}`).join(', ')}`);
+    }
+    if (report.ignoreRevsApplied) {
+        tooltipLines.push('Ignored revisions applied: lines from those commits are credited to earlier authors');
+    }
+    if (report.excludedLines > 0) {
+        tooltipLines.push(`Excluded: ${report.excludedLines} lines (blank lines and exclusion rules)`);
+    }
+    if (report.movedLines > 0) {
+        tooltipLines.push(`Move/copy detection: ${report.movedLines} moved or copied lines credited to their original authors`);
+    }
+    if (risk) {
+        tooltipLines.push(...describeRisk(risk));
+    }
+    if (codeOwners) {
+        tooltipLines.push(...describeCodeOwners(codeOwners));
+    }
+    if (repository) {
+        tooltipLines.push(describeRepository(repository));
+    }
     statusBarItem.tooltip = tooltipLines.join('\n');
 }
 
-async function showContributors() {
-    try {
-        const activeEditor = vscode.window.activeTextEditor;
-        if (!activeEditor) {
-            vscode.window.showInformationMessage('No active file');
-            return;
-        }
+// The sidebar tree and chart follow whatever the status bar shows
+function updateContributorsViews(editor: vscode.TextEditor, report: ContributorReport, lineRanges: LineRange[]) {
+    const title = `${path.basename(editor.document.uri.fsPath)}${lineRanges.length > 0 ? ' (selection)' : ''}`;
+    contributorsTree.update({
+        uri: editor.document.uri,
+        report,
+        languageId: editor.document.languageId,
+        loadBlameData: async () => filterToRanges(await getDocumentBlameData(editor), lineRanges)
+    });
+    contributorsTreeView.description = title;
+    contributorsTreeView.message = report.contributors.length === 0 ? 'No contribution data available' : undefined;
+    contributorsChart.update({ title, contributors: report.contributors });
+}
 
-        const filePath = activeEditor.document.uri.fsPath;
-        const fileContent = activeEditor.document.getText();
-        
-        // Check if file is in a git repository
-        const isInRepo = await gitRunner.isInGitRepository(filePath);
-        if (!isInRepo) {
-            vscode.window.showInformationMessage('File is not in a Git repository');
-            return;
-        }
+function clearContributorsViews(message: string) {
+    contributorsTree.update(undefined);
+    contributorsTreeView.description = undefined;
+    contributorsTreeView.message = message;
+    contributorsChart.update(undefined);
+}
 
-        // Get cached or fresh data
-        const cacheKey = await cache.getCacheKey(filePath, fileContent);
-        let contributors = cache.get(cacheKey);
-        
-        if (!contributors) {
-            const blameData = await blameParser.getBlameData(filePath, fileContent, gitRunner);
-            contributors = metricsCalculator.calculateContributions(blameData);
-            cache.set(cacheKey, contributors);
-        }
+function describeRepository(repository: RepositoryInfo): string {
+    const notes: string[] = [];
+    if (repository.superproject) {
+        notes.push(`submodule of ${path.basename(repository.superproject)}`);
+    }
+    if (repository.isWorktree) {
+        notes.push('linked worktree');
+    }
+    return `Repository: ${repository.root}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+}
 
-        if (contributors.length === 0) {
-            vscode.window.showInformationMessage('No contribution data available');
-            return;
-        }
+function describeRisk(risk: KnowledgeRisk): string[] {
+    const threshold = Math.round(readRiskOptions().busFactorThreshold * 100);
+    const lines = [`Bus factor: ${risk.busFactor} (fewest authors owning ${threshold}%)`];
+    const owner = risk.dominantOwner;
+    if (risk.ownerInactive && owner && risk.ownerLastActive !== undefined) {
+        lines.push(`⚠ At risk: ${owner.author} owns ${owner.percentage}% and has had no commits in ${monthsSince(risk.ownerLastActive)} months`);
+    } else if (risk.atRisk && owner) {
+        lines.push(`⚠ At risk: ${owner.author} alone owns ${threshold}% or more of this code`);
+    }
+    return lines;
+}
 
-        // Create QuickPick items
-        const items: vscode.QuickPickItem[] = contributors.map(contributor => ({
-            label: contributor.author,
-            description: `${contributor.percentage}% (${contributor.lines} lines)`
-        }));
+function describeCodeOwners(comparison: CodeOwnersComparison): string[] {
+    if (comparison.declaredOwners.length === 0) {
+        return ['CODEOWNERS: no owners declared for this file'];
+    }
+    const lines = [`CODEOWNERS: ${comparison.shares.map(share => `${share.owner} (${share.percentage}%)`).join(', ')}`];
+    if (comparison.mismatch) {
+        lines.push(`⚠ No declared owner holds ${Math.round(readCodeOwnersMinShare() * 100)}% or more of this code`);
+    }
+    return lines;
+}
+
+function describeContributor(contributor: ContributorMetrics): string {
+    const lines = metricsCalculator.formatCountValue(contributor.lines);
+    const coAuthored = contributor.coAuthoredLines > 0
+        ? `, ${metricsCalculator.formatCountValue(contributor.coAuthoredLines)} co-authored`
+        : '';
+    return `${contributor.percentage}% (${lines} lines${coAuthored})`;
+}
+
+// Hover links pass an identity to go straight to that author's commits
+async function showContributors(identity?: string) {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+        vscode.window.showInformationMessage('No active file');
+        return;
+    }
+    await showContributorsFor(activeEditor, [], 'File Contributors', typeof identity === 'string' ? identity : undefined);
+}
+
+async function showSelectionContributors() {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+        vscode.window.showInformationMessage('No active file');
+        return;
+    }
+
+    const lineRanges = getSelectionRanges(activeEditor);
+    if (lineRanges.length === 0) {
+        vscode.window.showInformationMessage('Select some lines first');
+        return;
+    }
+    await showContributorsFor(activeEditor, lineRanges, 'Selection Contributors');
+}
+
+async function showContributorsFor(activeEditor: vscode.TextEditor, lineRanges: LineRange[], title: string, identity?: string) {
+    try {
+        const filePath = activeEditor.document.uri.fsPath;
+        const fileContent = activeEditor.document.getText();
+        
+        // Check if file is in a git repository
+        const isInRepo = await gitRunner.isInGitRepository(filePath);
+        if (!isInRepo) {
+            vscode.window.showInformationMessage('File is not in a Git repository');
+            return;
+        }
+
+        // Get cached or fresh data
+        const { contributors } = await getReport(filePath, fileContent, lineRanges, activeEditor.document.isDirty, activeEditor.document.languageId);
+
+        if (contributors.length === 0) {
+            vscode.window.showInformationMessage('No contribution data available');
+            return;
+        }
+
+        const requested = identity ? contributors.find(c => identityKey(c.author, c.email) === identity) : undefined;
+        if (requested) {
+            const blameData = await analyzer.getBlameData(filePath, fileContent, lineRanges);
+            await showContributorCommits(activeEditor, blameData, toContributorPickItem(requested));
+            return;
+        }
+
+        const teams = teamView ? await getTeamMapping(filePath) : undefined;
+        let members = contributors;
+        if (teams) {
+            const team = await pickTeam(teams, contributors, title);
+            if (!team) {
+                return;
+            }
+            members = teams.getMembers(team, contributors);
+            title = `${title}: ${team}`;
+        }
+
+        // Declared owners are marked next to the blame-derived ranking
+        const codeOwners = await compareWithCodeOwners(filePath, contributors);
+        const ownerOf = (contributor: ContributorMetrics) => codeOwners
+            ? codeOwners.shares.find(share => share.contributors.includes(contributor))
+            : undefined;
+
+        // Create QuickPick items
+        const items = members.map(contributor => {
+            const share = ownerOf(contributor);
+            const item = toContributorPickItem(contributor);
+            return share ? { ...item, description: `${item.description} $(law) ${share.owner}` } : item;
+        });
 
         // Show QuickPick
         const selected = await vscode.window.showQuickPick(items, {
-            title: 'File Contributors',
-            placeHolder: 'Contributors sorted by contribution'
+            title,
+            placeHolder: codeOwners && codeOwners.declaredOwners.length > 0
+                ? `Contributors sorted by contribution · CODEOWNERS: ${codeOwners.declaredOwners.join(' ')}${codeOwners.mismatch ? ' (none holds a meaningful share)' : ''}`
+                : 'Contributors sorted by contribution'
         });
 
-        // Navigate to a line authored by the selected contributor
         if (selected) {
-            try {
-                const blameData = await blameParser.getBlameData(filePath, fileContent, gitRunner);
-                const match = blameData.find(b => b.author === selected.label);
-                if (match) {
-                    const line = Math.max(0, match.lineNumber - 1);
-                    const position = new vscode.Position(line, 0);
-                    const selection = new vscode.Selection(position, position);
-                    activeEditor.selection = selection;
-                    activeEditor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
-                } else {
-                    vscode.window.showInformationMessage(`No lines found for ${selected.label}`);
+            const blameData = await analyzer.getBlameData(filePath, fileContent, lineRanges);
+            await showContributorCommits(activeEditor, blameData, selected);
+        }
+    } catch (error) {
+        console.error('Error showing contributors:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+function toContributorPickItem(contributor: ContributorMetrics): ContributorPickItem {
+    return {
+        label: contributor.author,
+        description: describeContributor(contributor),
+        detail: contributor.email || undefined,
+        iconPath: heatmap.isEnabled() ? heatmap.getLegendIcon(contributor.author, contributor.email) : undefined,
+        identity: identityKey(contributor.author, contributor.email)
+    };
+}
+
+// Team aggregates come first in team view; picking one lists its members
+async function pickTeam(teams: TeamMapping, contributors: ContributorMetrics[], title: string): Promise<string | undefined> {
+    const items: TeamPickItem[] = teams.aggregate(contributors, metricsCalculator).map(team => {
+        const members = teams.getMembers(team.author, contributors);
+        return {
+            label: `$(organization) ${team.author}`,
+            description: describeContributor(team),
+            detail: members.map(member => member.author).join(', '),
+            team: team.author
+        };
+    });
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: `${title} by Team`,
+        placeHolder: `Teams from ${path.basename(teams.source)}, sorted by contribution`
+    });
+    return selected ? selected.team : undefined;
+}
+
+// Second level of the contributors QuickPick: the commits behind an author's surviving lines
+async function showContributorCommits(activeEditor: vscode.TextEditor, blameData: BlameLineData[], contributor: ContributorPickItem) {
+    const commits = metricsCalculator.calculateCommitContributions(blameData, contributor.identity, activeEditor.document.languageId);
+    const hunks = findAuthorHunks(blameData, contributor.identity);
+    if (hunks.length === 0) {
+        vscode.window.showInformationMessage(`No lines found for ${contributor.label}`);
+        return;
+    }
+
+    const items: CommitPickItem[] = [
+        {
+            label: '$(arrow-right) Go to first hunk',
+            description: `${hunks.length} ${hunks.length === 1 ? 'hunk' : 'hunks'}, cycle with Next/Previous Hunk by This Author`,
+            action: 'firstHunk'
+        },
+        {
+            label: '$(selection) Select all lines by this author',
+            action: 'selectAll'
+        },
+        ...commits.map(contribution => {
+            const uncommitted = contribution.commit === UNCOMMITTED_HASH;
+            return {
+                label: uncommitted ? 'Uncommitted changes' : contribution.summary || contribution.commit.substring(0, 7),
+                description: uncommitted ? undefined : `${contribution.commit.substring(0, 7)} · ${metricsCalculator.formatDate(contribution.timestamp)}`,
+                detail: `${metricsCalculator.formatCountValue(contribution.lines)} ${contribution.lines === 1 ? 'line' : 'lines'}`,
+                contribution
+            };
+        })
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: `Commits by ${contributor.label}`,
+        placeHolder: 'Commits that make up the surviving lines (select to open the diff)',
+        matchOnDescription: true
+    });
+    if (!selected) {
+        return;
+    }
+
+    if (selected.action === 'firstHunk') {
+        revealHunk(activeEditor, hunks, 0, contributor.label);
+        return;
+    }
+    if (selected.action === 'selectAll') {
+        selectHunks(activeEditor, hunks, contributor.label);
+        return;
+    }
+    if (!selected.contribution) {
+        return;
+    }
+
+    try {
+        await openCommitDiff(activeEditor.document, selected.contribution);
+    } catch (error) {
+        console.error('Error opening commit diff:', error);
+        vscode.window.showErrorMessage(`Failed to open commit diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+// Command links (hovers) can only pass the URI as a string
+async function openCommitDiffFor(uri: vscode.Uri | string, contribution: CommitContribution) {
+    try {
+        await openCommitDiff(await vscode.workspace.openTextDocument(typeof uri === 'string' ? vscode.Uri.parse(uri) : uri), contribution);
+    } catch (error) {
+        console.error('Error opening commit diff:', error);
+        vscode.window.showErrorMessage(`Failed to open commit diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+async function openCommitDiff(document: vscode.TextDocument, contribution: CommitContribution) {
+    const filePath = document.uri.fsPath;
+    const { root: repoRoot, relativePath } = await gitRunner.locate(filePath);
+    const fileName = path.basename(filePath);
+
+    // Local edits: compare the working copy with what is committed
+    if (contribution.commit === UNCOMMITTED_HASH) {
+        const isTracked = await gitRunner.isFileTracked(filePath);
+        const left = RevisionContentProvider.createUri(repoRoot, isTracked ? 'HEAD' : '', relativePath);
+        await vscode.commands.executeCommand('vscode.diff', left, document.uri, `${fileName} (Working Tree)`);
+        return;
+    }
+
+    const shortHash = contribution.commit.substring(0, 7);
+    const left = contribution.previous
+        ? RevisionContentProvider.createUri(repoRoot, contribution.previous.commit, contribution.previous.filename)
+        : RevisionContentProvider.createUri(repoRoot, '', contribution.filename);
+    const right = RevisionContentProvider.createUri(repoRoot, contribution.commit, contribution.filename);
+    await vscode.commands.executeCommand('vscode.diff', left, right, `${fileName} (${shortHash})`);
+}
+
+// Lines of the document as currently attributed, preferring the live tracker while editing
+function getHoverBlameData(document: vscode.TextDocument): Promise<BlameLineData[] | undefined> {
+    if (!vscode.workspace.getConfiguration('gitFlex').get<boolean>('showBlameHover', true)) {
+        return Promise.resolve(undefined);
+    }
+    const tracker = getLiveTracker(document);
+    if (tracker) {
+        return Promise.resolve(tracker.getBlameData());
+    }
+
+    const uri = document.uri.toString();
+    if (!hoverBlame || hoverBlame.uri !== uri || hoverBlame.version !== document.version) {
+        hoverBlame = { uri, version: document.version, blameData: loadHoverBlameData(document) };
+    }
+    return hoverBlame.blameData;
+}
+
+async function loadHoverBlameData(document: vscode.TextDocument): Promise<BlameLineData[] | undefined> {
+    try {
+        const filePath = document.uri.fsPath;
+        const fileContent = document.getText();
+        const maxSizeKB = vscode.workspace.getConfiguration('gitFlex').get<number>('maxFileSizeKB', 2048);
+        if (Buffer.byteLength(fileContent, 'utf8') / 1024 > maxSizeKB || !await gitRunner.isInGitRepository(filePath)) {
+            return undefined;
+        }
+        if (await gitRunner.isFileIgnored(filePath) || isExcludedFile((await gitRunner.locate(filePath)).relativePath)) {
+            return undefined;
+        }
+        return await analyzer.getBlameData(filePath, fileContent);
+    } catch (error) {
+        console.error('Error blaming for hover:', error);
+        return undefined;
+    }
+}
+
+async function getDocumentBlameData(editor: vscode.TextEditor): Promise<BlameLineData[]> {
+    const tracker = getLiveTracker(editor.document);
+    if (tracker) {
+        return tracker.getBlameData();
+    }
+    return analyzer.getBlameData(editor.document.uri.fsPath, editor.document.getText());
+}
+
+async function getNavigationHunks(): Promise<{ editor: vscode.TextEditor; hunks: LineRange[]; label: string } | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showInformationMessage('No active file');
+        return undefined;
+    }
+    if (!await gitRunner.isInGitRepository(editor.document.uri.fsPath)) {
+        vscode.window.showInformationMessage('File is not in a Git repository');
+        return undefined;
+    }
+
+    // "This author" is whoever owns the line under the cursor
+    const blameData = await getDocumentBlameData(editor);
+    const cursorLine = editor.selection.active.line + 1;
+    const author = blameData.find(b => b.lineNumber === cursorLine);
+    if (!author) {
+        vscode.window.showInformationMessage('No blame information for the current line');
+        return undefined;
+    }
+
+    const hunks = findAuthorHunks(blameData, identityKey(author.author, author.email));
+    return { editor, hunks, label: author.author };
+}
+
+async function navigateAuthorHunk(direction: 1 | -1) {
+    try {
+        const navigation = await getNavigationHunks();
+        if (!navigation) {
+            return;
+        }
+
+        const { editor, hunks, label } = navigation;
+        const cursorLine = editor.selection.active.line + 1;
+        let index: number;
+        if (direction > 0) {
+            index = hunks.findIndex(hunk => hunk.start > cursorLine);
+            if (index === -1) {
+                index = 0;
+            }
+        } else {
+            // Last hunk that ends above the cursor, so being inside a hunk moves to the one before it
+            index = -1;
+            for (let i = hunks.length - 1; i >= 0; i--) {
+                if (hunks[i].end < cursorLine) {
+                    index = i;
+                    break;
                 }
-            } catch (err) {
-                vscode.window.showErrorMessage(`Failed to navigate to contributor lines: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            }
+            if (index === -1) {
+                index = hunks.length - 1;
             }
         }
+
+        revealHunk(editor, hunks, index, label);
     } catch (error) {
-        console.error('Error showing contributors:', error);
+        console.error('Error navigating author hunks:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+async function selectAuthorLines() {
+    try {
+        const navigation = await getNavigationHunks();
+        if (navigation) {
+            selectHunks(navigation.editor, navigation.hunks, navigation.label);
+        }
+    } catch (error) {
+        console.error('Error selecting author lines:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+function revealHunk(editor: vscode.TextEditor, hunks: LineRange[], index: number, label: string) {
+    const hunk = hunks[index];
+    const start = new vscode.Position(hunk.start - 1, 0);
+    editor.selection = new vscode.Selection(start, start);
+    editor.revealRange(new vscode.Range(start, editor.document.lineAt(hunk.end - 1).range.end), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    vscode.window.setStatusBarMessage(`$(person) ${label}: hunk ${index + 1} of ${hunks.length}`, 4000);
+}
+
+// One selection per hunk, so every line by the author can be edited at once
+function selectHunks(editor: vscode.TextEditor, hunks: LineRange[], label: string) {
+    editor.selections = hunks.map(hunk =>
+        new vscode.Selection(hunk.start - 1, 0, hunk.end - 1, editor.document.lineAt(hunk.end - 1).text.length)
+    );
+    editor.revealRange(editor.selections[0], vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    const lineCount = hunks.reduce((sum, hunk) => sum + hunk.end - hunk.start + 1, 0);
+    vscode.window.setStatusBarMessage(`$(person) ${label}: ${lineCount} lines in ${hunks.length} hunks selected`, 4000);
+}
+
+async function analyzeFolderOwnership(folderUri?: vscode.Uri) {
+    try {
+        const ownership = await pickAndAnalyzeFolder(folderUri, 'Analyzing folder ownership');
+        if (ownership) {
+            await showFolderOwnership(ownership);
+        }
+    } catch (error) {
+        console.error('Error analyzing folder ownership:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+// Blames every tracked file under the folder (or a workspace folder) behind a cancellable progress
+async function pickAndAnalyzeFolder(folderUri: vscode.Uri | undefined, title: string): Promise<FolderOwnership | undefined> {
+    let folderPath = folderUri?.fsPath;
+
+    if (!folderPath) {
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (folders.length === 0) {
+            vscode.window.showInformationMessage('Open a folder to analyze ownership');
+            return undefined;
+        }
+        const folder = folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick();
+        if (!folder) {
+            return undefined;
+        }
+        folderPath = folder.uri.fsPath;
+    }
+
+    const isInRepo = await gitRunner.isInGitRepository(folderPath);
+    if (!isInRepo) {
+        vscode.window.showInformationMessage('Folder is not in a Git repository');
+        return undefined;
+    }
+
+    const config = vscode.workspace.getConfiguration('gitFlex');
+    const maxFileSizeKB = config.get<number>('maxFileSizeKB', 2048);
+    const rootPath = folderPath;
+
+    const ownership = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title,
+        cancellable: true
+    }, (progress, token) => {
+        let reported = 0;
+        return folderAnalyzer.analyze(rootPath, {
+            maxFileSizeKB,
+            getBlameOptions: repoRoot => analyzer.getBlameOptions(repoRoot),
+            countMovedLines: (filePath, blameOptions, blameData) => analyzer.countMovedLines(filePath, blameOptions, blameData),
+            excludeFiles: config.get<string[]>('excludeFiles', []),
+            isCancelled: () => token.isCancellationRequested,
+            onProgress: (processed, total, filePath) => {
+                const percent = total > 0 ? Math.floor((processed / total) * 100) : 100;
+                progress.report({
+                    increment: percent - reported,
+                    message: `${processed}/${total} ${path.relative(rootPath, filePath)}`
+                });
+                reported = percent;
+            }
+        });
+    });
+
+    if (ownership.cancelled) {
+        vscode.window.showInformationMessage('Folder analysis cancelled');
+        return undefined;
+    }
+    return ownership;
+}
+
+async function showRiskiestPaths(folderUri?: vscode.Uri) {
+    try {
+        const ownership = await pickAndAnalyzeFolder(folderUri, 'Analyzing knowledge risk');
+        if (!ownership) {
+            return;
+        }
+        if (ownership.analyzedFiles === 0) {
+            vscode.window.showInformationMessage('No tracked text files to analyze');
+            return;
+        }
+
+        const riskOptions = readRiskOptions();
+        const ranked = await riskAnalyzer.rankPaths(ownership, riskOptions);
+        if (ranked.length === 0) {
+            vscode.window.showInformationMessage('No at-risk paths found');
+            return;
+        }
+
+        const rootName = path.basename(ownership.rootPath);
+        const items: RiskPickItem[] = ranked.map(pathRisk => {
+            const { risk } = pathRisk;
+            const owner = risk.dominantOwner;
+            return {
+                label: `${pathRisk.isDirectory ? '$(folder)' : '$(file)'} ${pathRisk.path ? `${rootName}/${pathRisk.path}` : rootName}`,
+                description: `bus factor ${risk.busFactor}${owner ? ` · ${owner.author} ${owner.percentage}%` : ''}`,
+                detail: risk.ownerInactive && owner && risk.ownerLastActive !== undefined
+                    ? `$(warning) ${owner.author} inactive for ${monthsSince(risk.ownerLastActive)} months · ${pathRisk.lines} lines`
+                    : `${pathRisk.lines} lines`,
+                pathRisk
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `Riskiest Paths (${ranked.length} at risk, ${Math.round(riskOptions.busFactorThreshold * 100)}% ownership threshold)`,
+            placeHolder: 'Files and folders that depend on a single or inactive owner',
+            matchOnDescription: true
+        });
+        if (!selected) {
+            return;
+        }
+
+        const target = vscode.Uri.file(path.join(ownership.rootPath, ...selected.pathRisk.path.split('/')));
+        if (selected.pathRisk.isDirectory) {
+            await vscode.commands.executeCommand('revealInExplorer', target);
+        } else {
+            await vscode.window.showTextDocument(target);
+        }
+    } catch (error) {
+        console.error('Error showing riskiest paths:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+async function proposeCodeOwners(folderUri?: vscode.Uri) {
+    try {
+        const ownership = await pickAndAnalyzeFolder(folderUri, 'Analyzing ownership for CODEOWNERS');
+        if (!ownership) {
+            return;
+        }
+        if (ownership.analyzedFiles === 0) {
+            vscode.window.showInformationMessage('No tracked text files to analyze');
+            return;
+        }
+
+        // Directory keys are relative to the analyzed folder; CODEOWNERS paths to the repository root
+        const { root, relativePath: base } = await gitRunner.locate(ownership.rootPath);
+        const directories = new Map<string, ContributorMetrics[]>();
+        ownership.directories.forEach((contributors, directory) => {
+            directories.set([base, directory].filter(part => part && part !== '.').join('/'), contributors);
+        });
+
+        const codeOwners = await getCodeOwners(ownership.rootPath);
+        const config = vscode.workspace.getConfiguration('gitFlex');
+        const suggestions = suggestCodeOwners(directories, codeOwners, {
+            minShare: readCodeOwnersMinShare(),
+            maxOwners: config.get<number>('codeOwnersMaxOwners', 3),
+            handles: readOwnerHandles()
+        });
+        if (suggestions.length === 0) {
+            vscode.window.showInformationMessage('CODEOWNERS already matches who maintains this code');
+            return;
+        }
+
+        const targetPath = codeOwners ? codeOwners.source : path.join(root, CODEOWNERS_LOCATIONS[0]);
+        const current = codeOwners ? Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(targetPath))).toString('utf8') : '';
+        const threshold = Math.round(readCodeOwnersMinShare() * 100);
+        const proposed = [
+            current.replace(/\s*$/, ''),
+            '',
+            `# Proposed by Git Flex from blame ownership (owners with ${threshold}% or more of each directory)`,
+            ...formatCodeOwnersSuggestions(suggestions),
+            ''
+        ].join('\n').replace(/^\n+/, '');
+
+        // The proposal opens as an untitled document, so it can be edited before applying
+        const proposal = await vscode.workspace.openTextDocument({ content: proposed });
+        const left = codeOwners
+            ? vscode.Uri.file(targetPath)
+            : RevisionContentProvider.createUri(root, '', path.relative(root, targetPath).split(path.sep).join('/'));
+        await vscode.commands.executeCommand('vscode.diff', left, proposal.uri, `${path.relative(root, targetPath)} (proposed)`);
+
+        const choice = await vscode.window.showInformationMessage(
+            `${suggestions.length} CODEOWNERS ${suggestions.length === 1 ? 'entry' : 'entries'} proposed. Review the diff, then apply it to ${path.relative(root, targetPath)}.`,
+            'Apply'
+        );
+        if (choice === 'Apply') {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(targetPath)));
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(targetPath), Buffer.from(proposal.getText(), 'utf8'));
+            vscode.window.showInformationMessage(`Updated ${path.relative(root, targetPath)}`);
+        }
+    } catch (error) {
+        console.error('Error proposing CODEOWNERS entries:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+async function suggestReviewers() {
+    try {
+        const repoRoot = await pickRepositoryRoot();
+        if (!repoRoot) {
+            return;
+        }
+
+        const source = await pickChangeSource(repoRoot);
+        if (!source) {
+            return;
+        }
+
+        // Whoever is asking, as blame names them: .mailmap first, then the alias groups
+        const user = await gitRunner.getUserIdentity(repoRoot);
+        const excludeEmails = user ? [createIdentityResolver().resolve(user.name, user.email).email] : [];
+        const blameOptions = await analyzer.getBlameOptions(repoRoot);
+
+        const suggestions = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Finding reviewers',
+            cancellable: true
+        }, (progress, token) => {
+            let reported = 0;
+            return reviewerSuggester.suggest(repoRoot, source, {
+                excludeEmails,
+                blameOptions,
+                isCancelled: () => token.isCancellationRequested,
+                onProgress: (processed, total, filePath) => {
+                    const percent = total > 0 ? Math.floor((processed / total) * 100) : 100;
+                    progress.report({ increment: percent - reported, message: `${processed}/${total} ${filePath}` });
+                    reported = percent;
+                }
+            });
+        });
+
+        if (suggestions.cancelled) {
+            vscode.window.showInformationMessage('Reviewer search cancelled');
+            return;
+        }
+        if (suggestions.changedFiles === 0) {
+            vscode.window.showInformationMessage('No modified or deleted lines to review');
+            return;
+        }
+        if (suggestions.reviewers.length === 0) {
+            vscode.window.showInformationMessage('Only you (or excluded authors) wrote the lines being changed');
+            return;
+        }
+
+        const handles = readOwnerHandles();
+        const items: ReviewerPickItem[] = suggestions.reviewers.map(reviewer => ({
+            label: reviewer.author,
+            description: `${reviewer.percentage}% · ${metricsCalculator.formatCountValue(reviewer.lines)} ${reviewer.lines === 1 ? 'line' : 'lines'} in ${reviewer.files} ${reviewer.files === 1 ? 'file' : 'files'}`,
+            detail: `${reviewer.email} · last touched ${metricsCalculator.formatDate(reviewer.newestTimestamp)}`,
+            picked: true,
+            reviewer
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `Reviewers for ${suggestions.affectedLines} changed lines in ${suggestions.changedFiles} ${suggestions.changedFiles === 1 ? 'file' : 'files'}`,
+            placeHolder: 'Original authors of the lines being changed; pick the ones to copy',
+            canPickMany: true,
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const lines = selected.map(({ reviewer }) => {
+            const handle = CodeOwners.toOwner(reviewer, handles);
+            return `${reviewer.author} <${reviewer.email}>${handle.startsWith('@') ? ` (${handle})` : ''}`;
+        });
+        await vscode.env.clipboard.writeText(lines.join('\n'));
+        vscode.window.showInformationMessage(`Copied ${selected.length} ${selected.length === 1 ? 'reviewer' : 'reviewers'} to the clipboard`);
+    } catch (error) {
+        console.error('Error suggesting reviewers:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+// The active file's repository, or a workspace folder's
+async function pickRepositoryRoot(): Promise<string | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    let folderPath: string | undefined;
+    if (editor && editor.document.uri.scheme === 'file') {
+        folderPath = editor.document.uri.fsPath;
+    } else {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const folder = folders.length <= 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick();
+        folderPath = folder?.uri.fsPath;
+    }
+    if (!folderPath) {
+        vscode.window.showInformationMessage('Open a folder in a Git repository first');
+        return undefined;
+    }
+
+    const repository = await gitRunner.resolveRepository(folderPath);
+    if (!repository || repository.kind !== 'workTree') {
+        vscode.window.showInformationMessage('Not in a Git working tree');
+        return undefined;
+    }
+    return repository.root;
+}
+
+async function pickChangeSource(repoRoot: string): Promise<ChangeSource | undefined> {
+    const selected = await vscode.window.showQuickPick<ChangeSourcePickItem>([
+        { label: '$(diff-added) Staged changes', description: 'What the next commit would contain', source: 'staged' },
+        { label: '$(edit) Working tree changes', description: 'Everything not committed yet, staged or not', source: 'workingTree' },
+        { label: '$(git-branch) Commits since a branch…', description: 'The changes a pull request against that branch would show', source: 'branch' }
+    ], { placeHolder: 'Which changes need reviewers?' });
+    if (!selected) {
+        return undefined;
+    }
+    if (selected.source !== 'branch') {
+        return { kind: selected.source };
+    }
+
+    // Likely pull request targets first
+    const preferred = ['origin/main', 'origin/master', 'main', 'master', 'origin/develop', 'develop'];
+    const branches = (await gitRunner.listBranches(repoRoot)).sort((a, b) => {
+        const rankA = preferred.includes(a) ? preferred.indexOf(a) : preferred.length;
+        const rankB = preferred.includes(b) ? preferred.indexOf(b) : preferred.length;
+        return rankA - rankB;
+    });
+    const base = await vscode.window.showQuickPick(branches, { placeHolder: 'Compare with which branch? (uses the merge-base)' });
+    return base ? { kind: 'branch', base } : undefined;
+}
+
+async function exportContributorsReport(folderUri?: vscode.Uri) {
+    try {
+        const scope = folderUri ? 'folder' : await pickExportScope();
+        if (!scope) {
+            return;
+        }
+
+        const data = scope === 'folder'
+            ? await buildFolderExport(folderUri)
+            : await buildEditorExport(scope);
+        if (!data) {
+            return;
+        }
+
+        const formatPick = await vscode.window.showQuickPick<ExportFormatPickItem>([
+            { label: 'Markdown', description: 'For design docs, READMEs and pull requests', format: 'markdown' },
+            { label: 'HTML', description: 'A self-contained page', format: 'html' }
+        ], { placeHolder: 'Report format' });
+        if (!formatPick) {
+            return;
+        }
+
+        const extension = formatPick.format === 'html' ? 'html' : 'md';
+        const workspaceFolder = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+        const defaultDirectory = workspaceFolder ? workspaceFolder.uri.fsPath : os.homedir();
+        const targetUri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(defaultDirectory, `${path.basename(data.target.path)}-contributors.${extension}`)),
+            filters: formatPick.format === 'html' ? { HTML: ['html'] } : { Markdown: ['md'] }
+        });
+        if (!targetUri) {
+            return;
+        }
+
+        await vscode.workspace.fs.writeFile(targetUri, Buffer.from(ownershipExporter.render(data, formatPick.format), 'utf8'));
+        const choice = await vscode.window.showInformationMessage(`Contributors report saved to ${path.basename(targetUri.fsPath)}`, 'Open');
+        if (choice === 'Open') {
+            if (formatPick.format === 'html') {
+                await vscode.env.openExternal(targetUri);
+            } else {
+                await vscode.window.showTextDocument(targetUri);
+            }
+        }
+    } catch (error) {
+        console.error('Error exporting contributors report:', error);
+        vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+async function pickExportScope(): Promise<ExportScope | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    const items: ExportScopePickItem[] = [];
+    if (editor && editor.document.uri.scheme === 'file') {
+        const fileName = path.basename(editor.document.uri.fsPath);
+        items.push({ label: '$(file) Current file', description: fileName, scope: 'file' });
+        if (getSelectionRanges(editor).length > 0) {
+            items.push({ label: '$(selection) Selection', description: fileName, scope: 'selection' });
+        }
+    }
+    items.push({ label: '$(folder) Folder…', scope: 'folder' });
+
+    if (items.length === 1) {
+        return 'folder';
+    }
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'What should the report cover?' });
+    return selected ? selected.scope : undefined;
+}
+
+async function buildEditorExport(scope: ExportScope): Promise<OwnershipExport | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return undefined;
+    }
+
+    const filePath = editor.document.uri.fsPath;
+    if (!await gitRunner.isInGitRepository(filePath)) {
+        vscode.window.showInformationMessage('File is not in a Git repository');
+        return undefined;
+    }
+    const { relativePath } = await gitRunner.locate(filePath);
+    if (isExcludedFile(relativePath)) {
+        vscode.window.showInformationMessage(`${relativePath} matches gitFlex.excludeFiles`);
+        return undefined;
+    }
+
+    const lineRanges = scope === 'selection' ? getSelectionRanges(editor) : [];
+    const fileContent = editor.document.getText();
+    const { blameData, report } = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: 'Analyzing contributors'
+    }, () => analyzer.analyzeBlame(filePath, fileContent, lineRanges, undefined, editor.document.languageId));
+
+    const data = ownershipExporter.fromBlame(relativePath, blameData, report, lineRanges);
+    data.revision = await getExportRevision(filePath);
+    return data;
+}
+
+async function buildFolderExport(folderUri: vscode.Uri | undefined): Promise<OwnershipExport | undefined> {
+    const ownership = await pickAndAnalyzeFolder(folderUri, 'Analyzing folder ownership');
+    if (!ownership) {
+        return undefined;
+    }
+    if (ownership.analyzedFiles === 0) {
+        vscode.window.showInformationMessage('No tracked text files to analyze');
+        return undefined;
+    }
+
+    const { relativePath } = await gitRunner.locate(ownership.rootPath);
+    const data = ownershipExporter.fromFolder(relativePath === '.' ? path.basename(ownership.rootPath) : relativePath, ownership);
+    data.revision = await getExportRevision(ownership.rootPath);
+    return data;
+}
+
+// A repository without commits still gets a report, just without a revision
+async function getExportRevision(filePath: string): Promise<string | undefined> {
+    try {
+        return await gitRunner.getCurrentCommitHash(filePath);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+async function showFolderOwnership(ownership: FolderOwnership) {
+    if (ownership.analyzedFiles === 0) {
+        vscode.window.showInformationMessage('No tracked text files to analyze');
+        return;
+    }
+
+    const rootName = path.basename(ownership.rootPath);
+    const directories = Array.from(ownership.directories.keys()).sort();
+
+    const items: DirectoryPickItem[] = directories.map(directory => {
+        const contributors = ownership.directories.get(directory) || [];
+        const top = contributors[0];
+        const fileCount = ownership.fileCounts.get(directory) || 0;
+        return {
+            label: directory ? `${rootName}/${directory}` : `${rootName} (overall)`,
+            description: top ? `${top.author} ${top.percentage}%` : '— —%',
+            detail: `${fileCount} files, ${contributors.length} contributors`,
+            directory
+        };
+    });
+
+    // Keep going back to the directory list until the user dismisses it
+    while (true) {
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `Folder Ownership (${ownership.analyzedFiles} files, ${ownership.skippedFiles} skipped, ${ownership.excludedFiles} excluded)`,
+            placeHolder: 'Select a directory to see its contributors',
+            matchOnDetail: true
+        });
+        if (!selected) {
+            return;
+        }
+
+        const contributors = ownership.directories.get(selected.directory) || [];
+        const back = await vscode.window.showQuickPick(contributors.map(contributor => ({
+            label: contributor.author,
+            description: describeContributor(contributor),
+            detail: contributor.email || undefined
+        })), {
+            title: `Contributors: ${selected.label}`,
+            placeHolder: 'Contributors sorted by contribution (select to go back)'
+        });
+        if (!back) {
+            return;
+        }
+    }
+}
+
+async function showOwnershipHistory() {
+    try {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor) {
+            vscode.window.showInformationMessage('No active file');
+            return;
+        }
+
+        const filePath = activeEditor.document.uri.fsPath;
+        const isInRepo = await gitRunner.isInGitRepository(filePath);
+        if (!isInRepo || !await gitRunner.isFileTracked(filePath)) {
+            vscode.window.showInformationMessage('File has no Git history');
+            return;
+        }
+
+        const maxSamples = vscode.workspace.getConfiguration('gitFlex').get<number>('historySamples', 20);
+        const blameOptions = await analyzer.getBlameOptions(filePath);
+
+        const timeline = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Sampling ownership history',
+            cancellable: true
+        }, (progress, token) => {
+            return ownershipHistory.analyze(filePath, {
+                maxSamples: Math.max(2, maxSamples),
+                blameOptions,
+                isCancelled: () => token.isCancellationRequested,
+                onProgress: (processed, total, revision) => {
+                    progress.report({
+                        increment: 100 / Math.max(1, total),
+                        message: `${processed + 1}/${total} ${revision.commit.substring(0, 7)}`
+                    });
+                }
+            });
+        });
+
+        if (timeline.cancelled) {
+            vscode.window.showInformationMessage('Ownership history cancelled');
+            return;
+        }
+        if (timeline.samples.length === 0) {
+            vscode.window.showInformationMessage('No history found for this file');
+            return;
+        }
+
+        OwnershipHistoryView.show(`Ownership History: ${path.basename(filePath)}`, timeline, async sample => {
+            const uri = RevisionContentProvider.createUri(timeline.repoRoot, sample.revision.commit, sample.revision.path);
+            const document = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, preview: true });
+        });
+    } catch (error) {
+        console.error('Error showing ownership history:', error);
         vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 }
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { BlameLineData } from './core';
+import { getHueColor, getIdentityHue } from './colors';
+
+export class AuthorHeatmap implements vscode.Disposable {
+    private enabled = false;
+    private style = 'gutter';
+    // One decoration type per identity color, shared across editors
+    private decorationTypes = new Map<number, vscode.TextEditorDecorationType>();
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.clear();
+        }
+    }
+
+    setStyle(style: string): void {
+        if (style === this.style) {
+            return;
+        }
+        // Existing decoration types were built for the old style
+        this.disposeDecorationTypes();
+        this.style = style;
+    }
+
+    apply(editor: vscode.TextEditor, blameData: BlameLineData[]): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        const rangesByHue = new Map<number, vscode.Range[]>();
+        for (const lineData of blameData) {
+            const line = lineData.lineNumber - 1;
+            if (line < 0 || line >= editor.document.lineCount) {
+                continue;
+            }
+            const hue = getIdentityHue(lineData.author, lineData.email);
+            const ranges = rangesByHue.get(hue) || [];
+            ranges.push(new vscode.Range(line, 0, line, 0));
+            rangesByHue.set(hue, ranges);
+        }
+
+        // Authors no longer present in this editor still need their decorations removed
+        for (const hue of this.decorationTypes.keys()) {
+            if (!rangesByHue.has(hue)) {
+                rangesByHue.set(hue, []);
+            }
+        }
+
+        for (const [hue, ranges] of rangesByHue.entries()) {
+            editor.setDecorations(this.getDecorationType(hue), ranges);
+        }
+    }
+
+    clear(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            for (const decorationType of this.decorationTypes.values()) {
+                editor.setDecorations(decorationType, []);
+            }
+        }
+    }
+
+    // Small color swatch for the contributors QuickPick legend
+    getLegendIcon(author: string, email: string): vscode.Uri {
+        return this.createSwatch(getHueColor(getIdentityHue(author, email)));
+    }
+
+    dispose(): void {
+        this.disposeDecorationTypes();
+    }
+
+    private getDecorationType(hue: number): vscode.TextEditorDecorationType {
+        let decorationType = this.decorationTypes.get(hue);
+        if (!decorationType) {
+            decorationType = this.style === 'background'
+                ? vscode.window.createTextEditorDecorationType({
+                    isWholeLine: true,
+                    backgroundColor: getHueColor(hue, 0.12)
+                })
+                : vscode.window.createTextEditorDecorationType({
+                    gutterIconPath: this.createSwatch(getHueColor(hue), true),
+                    gutterIconSize: 'contain'
+                });
+            this.decorationTypes.set(hue, decorationType);
+        }
+        return decorationType;
+    }
+
+    private createSwatch(color: string, bar: boolean = false): vscode.Uri {
+        const shape = bar
+            ? `<rect x="0" y="0" width="4" height="16" fill="${color}"/>`
+            : `<rect x="2" y="2" width="12" height="12" rx="2" fill="${color}"/>`;
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16">${shape}</svg>`;
+        return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+    }
+
+    private disposeDecorationTypes(): void {
+        for (const decorationType of this.decorationTypes.values()) {
+            decorationType.dispose();
+        }
+        this.decorationTypes.clear();
+    }
+}
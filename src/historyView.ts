@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { OwnershipSample, OwnershipTimeline, identityKey } from './core';
+import { getIdentityColor } from './colors';
+
+interface SeriesAuthor {
+    key: string;
+    author: string;
+    color: string;
+}
+
+// Authors beyond this are folded into "Others" to keep the chart readable
+const MAX_SERIES = 8;
+
+export class OwnershipHistoryView {
+    static show(title: string, timeline: OwnershipTimeline, onOpenRevision: (sample: OwnershipSample) => void): vscode.WebviewPanel {
+        const panel = vscode.window.createWebviewPanel('gitFlex.ownershipHistory', title, vscode.ViewColumn.Beside, {
+            enableScripts: true
+        });
+
+        panel.webview.html = new OwnershipHistoryView().render(panel.webview, title, timeline);
+        panel.webview.onDidReceiveMessage(message => {
+            if (message && message.type === 'openRevision') {
+                const sample = timeline.samples[message.index];
+                if (sample) {
+                    onOpenRevision(sample);
+                }
+            }
+        });
+        return panel;
+    }
+
+    private render(webview: vscode.Webview, title: string, timeline: OwnershipTimeline): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const series = this.pickSeries(timeline.samples);
+        const hasOthers = timeline.samples.some(sample => this.othersShare(sample, series) > 0);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>${this.escape(title)}</title>
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    table { border-collapse: collapse; margin-top: 16px; }
+    th, td { padding: 2px 8px; text-align: right; border-bottom: 1px solid var(--vscode-panel-border); }
+    th:first-child, td:first-child, td.summary { text-align: left; }
+    tbody tr { cursor: pointer; }
+    tbody tr:hover { background: var(--vscode-list-hoverBackground); }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px; }
+    circle { cursor: pointer; }
+    .axis { stroke: var(--vscode-panel-border); }
+    .label { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+</style>
+</head>
+<body>
+<h2>${this.escape(title)}</h2>
+<p>${timeline.samples.length} of ${timeline.totalRevisions} revisions sampled. Click a point or row to open the file at that revision.</p>
+${this.renderChart(timeline.samples, series, hasOthers)}
+${this.renderTable(timeline.samples, series, hasOthers)}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('[data-index]').forEach(element => {
+        element.addEventListener('click', () => {
+            vscode.postMessage({ type: 'openRevision', index: Number(element.getAttribute('data-index')) });
+        });
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    private renderChart(samples: OwnershipSample[], series: SeriesAuthor[], hasOthers: boolean): string {
+        const width = 720;
+        const height = 260;
+        const padding = 32;
+        const x = (index: number) => samples.length > 1
+            ? padding + (index / (samples.length - 1)) * (width - 2 * padding)
+            : width / 2;
+        const y = (percentage: number) => height - padding - (percentage / 100) * (height - 2 * padding);
+
+        const lines = [...series, ...(hasOthers ? [this.othersSeries()] : [])].map(author => {
+            const points = samples.map((sample, index) => ({ index, value: this.share(sample, author, series) }));
+            const polyline = points.map(point => `${x(point.index).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+            const circles = points.map(point =>
+                `<circle cx="${x(point.index).toFixed(1)}" cy="${y(point.value).toFixed(1)}" r="3" fill="${author.color}" data-index="${point.index}"><title>${this.escape(author.author)}: ${point.value}% at ${this.escape(samples[point.index].revision.commit.substring(0, 7))}</title></circle>`
+            ).join('');
+            return `<polyline fill="none" stroke="${author.color}" stroke-width="2" points="${polyline}"/>${circles}`;
+        }).join('\n');
+
+        const gridLines = [0, 25, 50, 75, 100].map(percentage =>
+            `<line class="axis" x1="${padding}" x2="${width - padding}" y1="${y(percentage)}" y2="${y(percentage)}"/><text class="label" x="4" y="${y(percentage) + 3}">${percentage}%</text>`
+        ).join('');
+
+        return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${gridLines}${lines}</svg>`;
+    }
+
+    private renderTable(samples: OwnershipSample[], series: SeriesAuthor[], hasOthers: boolean): string {
+        const columns = [...series, ...(hasOthers ? [this.othersSeries()] : [])];
+        const header = columns.map(author =>
+            `<th><span class="swatch" style="background:${author.color}"></span>${this.escape(author.author)}</th>`
+        ).join('');
+
+        // Newest first reads better in a table
+        const rows = samples.map((sample, index) => ({ sample, index })).reverse().map(({ sample, index }) => {
+            const date = new Date(sample.revision.timestamp * 1000).toISOString().substring(0, 10);
+            const cells = columns.map(author => `<td>${this.share(sample, author, series)}%</td>`).join('');
+            return `<tr data-index="${index}"><td>${date}</td><td>${this.escape(sample.revision.commit.substring(0, 7))}</td><td class="summary">${this.escape(sample.revision.summary)}</td>${cells}</tr>`;
+        }).join('\n');
+
+        return `<table><thead><tr><th>Date</th><th>Commit</th><th>Summary</th>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+    }
+
+    // Authors with the largest share at any point in the timeline
+    private pickSeries(samples: OwnershipSample[]): SeriesAuthor[] {
+        const peaks = new Map<string, { author: string; email: string; peak: number }>();
+        for (const sample of samples) {
+            for (const contributor of sample.contributors) {
+                const key = identityKey(contributor.author, contributor.email);
+                const existing = peaks.get(key);
+                if (!existing || existing.peak < contributor.percentage) {
+                    peaks.set(key, { author: contributor.author, email: contributor.email, peak: contributor.percentage });
+                }
+            }
+        }
+
+        return Array.from(peaks.entries())
+            .sort((a, b) => b[1].peak - a[1].peak)
+            .slice(0, MAX_SERIES)
+            .map(([key, value]) => ({ key, author: value.author, color: getIdentityColor(value.author, value.email) }));
+    }
+
+    private share(sample: OwnershipSample, author: SeriesAuthor, series: SeriesAuthor[]): number {
+        if (author.key === '') {
+            return this.othersShare(sample, series);
+        }
+        const contributor = sample.contributors.find(c => identityKey(c.author, c.email) === author.key);
+        return contributor ? contributor.percentage : 0;
+    }
+
+    private othersShare(sample: OwnershipSample, series: SeriesAuthor[]): number {
+        const keys = new Set(series.map(author => author.key));
+        return sample.contributors
+            .filter(c => !keys.has(identityKey(c.author, c.email)))
+            .reduce((sum, c) => sum + c.percentage, 0);
+    }
+
+    private othersSeries(): SeriesAuthor {
+        return { key: '', author: 'Others', color: 'hsla(0, 0%, 70%, 1)' };
+    }
+
+    private escape(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { GitRunner } from './core';
+
+export const REVISION_SCHEME = 'gitflex-revision';
+
+interface RevisionQuery {
+    repoRoot: string;
+    commit: string;
+    path: string;
+}
+
+// Read-only documents with a file's content at a given commit
+export class RevisionContentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private gitRunner: GitRunner) {}
+
+    // An empty commit stands for "before the file existed" and yields an empty document
+    static createUri(repoRoot: string, commit: string, repoRelativePath: string): vscode.Uri {
+        const query: RevisionQuery = { repoRoot, commit, path: repoRelativePath };
+        // Keep the file name in the path so the editor picks the right language
+        return vscode.Uri.from({
+            scheme: REVISION_SCHEME,
+            path: `/${commit ? commit.substring(0, 7) : 'empty'}/${repoRelativePath}`,
+            query: JSON.stringify(query)
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = JSON.parse(uri.query) as RevisionQuery;
+        if (!query.commit) {
+            return '';
+        }
+        return this.gitRunner.getFileAtRevision(query.repoRoot, query.commit, query.path);
+    }
+}